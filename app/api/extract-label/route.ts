@@ -2,8 +2,11 @@ import { NextResponse } from "next/server";
 import {
   extractLabelFromFormData,
   extractLabelFromImageDataUrl,
+  extractLabelFromPanelDataUrls,
 } from "@/lib/extraction";
-import { expectedAlcoholLabelSchema } from "@/lib/schemas";
+import type { EvaluationMode } from "@/lib/extraction";
+import { parsePanelRole, resolveGeometryCorrection } from "@/lib/extraction/utils";
+import { expectedAlcoholLabelSchema, MAX_LABEL_PANELS } from "@/lib/schemas";
 
 export const runtime = "nodejs";
 
@@ -11,7 +14,16 @@ function getVerifyImageUrl(): string | null {
   return process.env.AZURE_FUNCTION_VERIFY_IMAGE_URL ?? null;
 }
 
-// Handles label extraction requests. Accepts either JSON with a data URL or
+// Reports the server's pipeline defaults so the upload page can preset its
+// switches to them.
+export async function GET() {
+  return NextResponse.json({
+    correctGeometry: resolveGeometryCorrection(null, console.warn),
+  });
+}
+
+// Handles label extraction requests. Accepts either JSON with a data URL (or
+// a "panels" list of them for a label photographed as several images) or
 // multipart form data, runs the extraction pipeline locally when configured,
 // or forwards the payload to the external verify service when enabled.
 export async function POST(request: Request) {
@@ -28,14 +40,42 @@ export async function POST(request: Request) {
       }
       const body = (payload ?? {}) as {
         imageDataUrl?: unknown;
+        panels?: unknown;
         expected?: unknown;
         imageName?: unknown;
+        passes?: unknown;
+        evaluator?: unknown;
+        correctGeometry?: unknown;
       };
       const imageDataUrl =
         typeof body.imageDataUrl === "string" ? body.imageDataUrl : null;
-      if (!imageDataUrl) {
+      const panels = Array.isArray(body.panels)
+        ? body.panels.flatMap((panel: unknown) => {
+            const item = (panel ?? {}) as {
+              imageDataUrl?: unknown;
+              name?: unknown;
+              role?: unknown;
+            };
+            return typeof item.imageDataUrl === "string"
+              ? [
+                  {
+                    imageDataUrl: item.imageDataUrl,
+                    name: typeof item.name === "string" ? item.name : undefined,
+                    role: parsePanelRole(item.role, console.warn),
+                  },
+                ]
+              : [];
+          })
+        : [];
+      if (!imageDataUrl && panels.length === 0) {
         return NextResponse.json(
-          { error: "imageDataUrl is required" },
+          { error: "imageDataUrl or panels is required" },
+          { status: 400 }
+        );
+      }
+      if (panels.length > MAX_LABEL_PANELS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_LABEL_PANELS} images can be submitted per label` },
           { status: 400 }
         );
       }
@@ -43,20 +83,34 @@ export async function POST(request: Request) {
       const expectedParsed = expectedAlcoholLabelSchema.safeParse(body.expected);
       const expected = expectedParsed.success ? expectedParsed.data : null;
       const imageName = typeof body.imageName === "string" ? body.imageName : undefined;
+      const passes = typeof body.passes === "number" ? body.passes : undefined;
+      const evaluator: EvaluationMode | undefined =
+        body.evaluator === "llm" ||
+        body.evaluator === "rules" ||
+        body.evaluator === "hybrid"
+          ? body.evaluator
+          : undefined;
 
-      const result = await extractLabelFromImageDataUrl(imageDataUrl, expected, {
-        logger: console,
-        imageName,
-      });
+      const correctGeometry =
+        typeof body.correctGeometry === "boolean" ? body.correctGeometry : undefined;
+
+      const options = { logger: console, imageName, passes, evaluator, correctGeometry };
+      const result = imageDataUrl
+        ? await extractLabelFromImageDataUrl(imageDataUrl, expected, options)
+        : await extractLabelFromPanelDataUrls(panels, expected, options);
       if (!result.ok) {
         return NextResponse.json(
-          { error: result.error },
+          { error: result.error, quality: result.quality ?? null },
           { status: result.status }
         );
       }
       return NextResponse.json({
         label: result.label,
         evaluation: result.evaluation,
+        agreement: result.agreement,
+        fieldPanels: result.fieldPanels ?? null,
+        quality: result.quality ?? null,
+        correctedImage: result.correctedImage ?? null,
       });
     }
 
@@ -64,11 +118,19 @@ export async function POST(request: Request) {
     const result = await extractLabelFromFormData(formData, { logger: console });
     if (!result.ok) {
       return NextResponse.json(
-        { error: result.error },
+        { error: result.error, quality: result.quality ?? null },
         { status: result.status }
       );
     }
-    return NextResponse.json({ label: result.label, evaluation: result.evaluation });
+    return NextResponse.json({
+      label: result.label,
+      evaluation: result.evaluation,
+      agreement: result.agreement,
+      fieldPanels: result.fieldPanels ?? null,
+      quality: result.quality ?? null,
+      correctedImage: result.correctedImage ?? null,
+      pageImage: result.pageImage ?? null,
+    });
   }
 
   const requestContentType =
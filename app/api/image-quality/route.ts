@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { analyzeImageQuality } from "@/lib/extraction/image-quality";
+import { getPageName, isBlobLike, loadImageBytes, resolveLogger } from "@/lib/extraction/utils";
+import type { ImageQualityReport } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+
+// Runs the local image quality pre-check on one uploaded "image" file so the
+// upload page can flag unusable images before extraction. A PDF proof gets
+// one report per page. No model calls are made.
+export async function POST(request: Request) {
+  const formData = await request.formData();
+  const image = formData.get("image");
+  if (!isBlobLike(image)) {
+    return NextResponse.json({ error: "Image file is required" }, { status: 400 });
+  }
+
+  const logger = resolveLogger(console);
+  const imageBytesResult = await loadImageBytes(image, logger);
+  if (!imageBytesResult.ok) {
+    return NextResponse.json(
+      { error: imageBytesResult.error.error },
+      { status: imageBytesResult.error.status }
+    );
+  }
+
+  const pages = imageBytesResult.value;
+  const name = image.name || "image";
+  const reports: ImageQualityReport[] = [];
+  for (const [pageIndex, page] of pages.entries()) {
+    const report = await analyzeImageQuality(
+      page.buffer,
+      pages.length > 1 ? getPageName(name, pageIndex) : name,
+      logger
+    );
+    if (report) {
+      reports.push(report);
+    }
+  }
+  return NextResponse.json({ reports });
+}
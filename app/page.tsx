@@ -24,7 +24,7 @@ export default function Home() {
             <ul className="list-decimal list-inside space-y-3 text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900/40 p-5 rounded-lg">
               <li>Navigate to the <strong>Upload</strong> page and ensure "Single" is selected.</li>
               <li>Upload your label image. [View <Link href="/Fireball.jpg" className="text-blue-500 hover:underline">Label Example</Link>]</li>
-               <span className="text-sm block mt-1 text-gray-500 italic">(Note: Please combine all relevant sections (Front, Back, Sides) into a single image file).</span>
+               <span className="text-sm block mt-1 text-gray-500 italic">(Note: If the label spans several panels, select one image per panel (Front, Back, Neck) and mark each panel; they are verified together as one label. PDF artwork proofs are accepted, with each page treated as a panel).</span>
               <li>Enter the <strong>Expected Label Data</strong> into the provided form fields for the AI to compare against.</li>
               <li>Click "Process & Verify Labels" and view the detailed breakdown on the <strong>Review</strong> page.</li>
             </ul>
@@ -49,7 +49,7 @@ export default function Home() {
                 <strong>Upload Data:</strong> Provide a CSV or Excel file. 
                 <ul className="list-disc list-inside ml-6 mt-2 space-y-1 text-sm">
                   <li>The file should be exportable directly from the COLA system.</li>
-                  <li><strong>Critical:</strong> The "Filename" column in your CSV must match your image filenames exactly.</li>
+                  <li><strong>Critical:</strong> The "Filename" column in your CSV must match your image filenames exactly. For a label made of several images, give them the same label name on the Upload page and use that name in the CSV.</li>
                   <li>[Download <Link href="/Table-Example.csv" className="text-purple-500 hover:underline font-medium">Template CSV Example</Link>]</li>
                 </ul>
               </li>
@@ -9,6 +9,12 @@ export function AIEvaluationPanel({ evaluation }: AIEvaluationPanelProps) {
     return null;
   }
 
+  const deciders = evaluation.decidedBy
+    ? Object.values(evaluation.decidedBy)
+    : [];
+  const ruleCount = deciders.filter((decider) => decider === "rules").length;
+  const modelCount = deciders.filter((decider) => decider === "llm").length;
+
   return (
     <div className="mb-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
       <div className="flex items-center justify-between">
@@ -17,6 +23,11 @@ export function AIEvaluationPanel({ evaluation }: AIEvaluationPanelProps) {
           {evaluation.passed ? "✅ Passed" : "❌ Failed"}
         </span>
       </div>
+      {deciders.length > 0 && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+          Fields scored by rules: {ruleCount} · by model: {modelCount}
+        </p>
+      )}
     </div>
   );
 }
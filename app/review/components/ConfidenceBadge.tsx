@@ -0,0 +1,26 @@
+import { formatConfidence, isLowConfidence } from "@/lib/confidence";
+
+type ConfidenceBadgeProps = {
+  confidence?: number | null;
+};
+
+export function ConfidenceBadge({ confidence }: ConfidenceBadgeProps) {
+  if (typeof confidence !== "number") {
+    return null;
+  }
+
+  const low = isLowConfidence(confidence);
+  return (
+    <span
+      className={`ml-2 inline-block rounded px-1.5 py-0.5 text-xs font-medium ${
+        low
+          ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200"
+          : "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300"
+      }`}
+      title={low ? "Low confidence: check this field first" : "Extraction confidence"}
+    >
+      {low ? "⚠ " : ""}
+      {formatConfidence(confidence)}
+    </span>
+  );
+}
@@ -1,9 +1,17 @@
 import type { ExpectedAlcoholLabel } from "@/lib/schemas";
+import { formatYears } from "@/lib/ageStatement";
 
 type ExpectedDataPanelProps = {
   data: ExpectedAlcoholLabel;
 };
 
+// Wine designations, shown only when present.
+const wineFields: Array<{ key: "appellation" | "vintage" | "varietal"; label: string }> = [
+  { key: "appellation", label: "Appellation" },
+  { key: "vintage", label: "Vintage" },
+  { key: "varietal", label: "Varietal" },
+];
+
 export function ExpectedDataPanel({ data }: ExpectedDataPanelProps) {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
@@ -29,6 +37,14 @@ export function ExpectedDataPanel({ data }: ExpectedDataPanelProps) {
             {data.alcoholContent?.text ?? "Not provided"}
           </dd>
         </div>
+        {data.ageYears !== null && (
+          <div>
+            <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
+              Age
+            </dt>
+            <dd className="mt-1">{formatYears(data.ageYears)}</dd>
+          </div>
+        )}
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Net Contents
@@ -51,6 +67,18 @@ export function ExpectedDataPanel({ data }: ExpectedDataPanelProps) {
             {data.countryOfOrigin?.text ?? "Not provided"}
           </dd>
         </div>
+        {wineFields.map(({ key, label }) => {
+          const field = data[key];
+          if (!field) return null;
+          return (
+            <div key={key}>
+              <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
+                {label}
+              </dt>
+              <dd className="mt-1">{field.text}</dd>
+            </div>
+          );
+        })}
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Government Warning
@@ -1,10 +1,34 @@
-import type { ExtractedAlcoholLabel } from "@/lib/schemas";
+import type { ExtractedAlcoholLabel, LabelPanel } from "@/lib/schemas";
+import { ConfidenceBadge } from "./ConfidenceBadge";
 
 type ExtractedDataPanelProps = {
   data: ExtractedAlcoholLabel;
+  // Set when the label was submitted as several panel images.
+  panels?: LabelPanel[];
+  fieldPanels?: Record<string, string>;
 };
 
-export function ExtractedDataPanel({ data }: ExtractedDataPanelProps) {
+// Wine designations, shown only when present.
+const wineFields: Array<{ key: "appellation" | "vintage" | "varietal"; label: string }> = [
+  { key: "appellation", label: "Appellation" },
+  { key: "vintage", label: "Vintage" },
+  { key: "varietal", label: "Varietal" },
+];
+
+/**
+ * Names the panel a field was read from, by role when the panel has one.
+ */
+function PanelSource({ name, panels }: { name?: string; panels?: LabelPanel[] }) {
+  if (!name) return null;
+  const role = panels?.find((panel) => panel.name === name)?.role;
+  return (
+    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+      ({role ? `${role} panel` : name})
+    </span>
+  );
+}
+
+export function ExtractedDataPanel({ data, panels, fieldPanels }: ExtractedDataPanelProps) {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
       <h2 className="text-xl font-semibold mb-4">Extracted Data</h2>
@@ -12,30 +36,60 @@ export function ExtractedDataPanel({ data }: ExtractedDataPanelProps) {
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Brand
+            <ConfidenceBadge confidence={data.brandName?.confidence} />
+            <PanelSource name={fieldPanels?.brandName} panels={panels} />
           </dt>
           <dd className="mt-1">{data.brandName?.text ?? "Not found"}</dd>
         </div>
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Class/Type
+            <ConfidenceBadge confidence={data.classType?.confidence} />
+            <PanelSource name={fieldPanels?.classType} panels={panels} />
           </dt>
           <dd className="mt-1">{data.classType?.text ?? "Not found"}</dd>
         </div>
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Alcohol Content
+            <ConfidenceBadge confidence={data.alcoholContent?.confidence} />
+            <PanelSource name={fieldPanels?.alcoholContent} panels={panels} />
           </dt>
           <dd className="mt-1">{data.alcoholContent?.text ?? "Not found"}</dd>
         </div>
+        {data.proofStatement && (
+          <div>
+            <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
+              Proof
+              <ConfidenceBadge confidence={data.proofStatement.confidence} />
+            <PanelSource name={fieldPanels?.proofStatement} panels={panels} />
+            </dt>
+            <dd className="mt-1">{data.proofStatement.text}</dd>
+          </div>
+        )}
+        {data.ageStatement && (
+          <div>
+            <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
+              Age Statement
+              <ConfidenceBadge confidence={data.ageStatement.confidence} />
+            <PanelSource name={fieldPanels?.ageStatement} panels={panels} />
+            </dt>
+            <dd className="mt-1">{data.ageStatement.text}</dd>
+          </div>
+        )}
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Net Contents
+            <ConfidenceBadge confidence={data.netContents?.confidence} />
+            <PanelSource name={fieldPanels?.netContents} panels={panels} />
           </dt>
           <dd className="mt-1">{data.netContents?.text ?? "Not found"}</dd>
         </div>
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Bottler/Producer
+            <ConfidenceBadge confidence={data.bottlerProducer?.confidence} />
+            <PanelSource name={fieldPanels?.bottlerProducer} panels={panels} />
           </dt>
           <dd className="mt-1">
             {data.bottlerProducer?.text ?? "Not provided"}
@@ -44,14 +98,32 @@ export function ExtractedDataPanel({ data }: ExtractedDataPanelProps) {
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Country of Origin
+            <ConfidenceBadge confidence={data.countryOfOrigin?.confidence} />
+            <PanelSource name={fieldPanels?.countryOfOrigin} panels={panels} />
           </dt>
           <dd className="mt-1">
             {data.countryOfOrigin?.text ?? "Not provided"}
           </dd>
         </div>
+        {wineFields.map(({ key, label }) => {
+          const field = data[key];
+          if (!field) return null;
+          return (
+            <div key={key}>
+              <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
+                {label}
+                <ConfidenceBadge confidence={field.confidence} />
+                <PanelSource name={fieldPanels?.[key]} panels={panels} />
+              </dt>
+              <dd className="mt-1">{field.text}</dd>
+            </div>
+          );
+        })}
         <div>
           <dt className="font-semibold text-sm text-gray-600 dark:text-gray-400">
             Government Warning
+            <ConfidenceBadge confidence={data.governmentWarning?.confidence} />
+            <PanelSource name={fieldPanels?.governmentWarning} panels={panels} />
           </dt>
           <dd className="mt-1 text-xs break-words">
             {data.governmentWarning?.text ?? "Not found"}
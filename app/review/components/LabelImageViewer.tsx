@@ -0,0 +1,96 @@
+import type { BoundingBox } from "@/lib/schemas";
+
+type LabelImageViewerProps = {
+  imageDataUrl?: string;
+  imageName: string;
+  highlight: BoundingBox | null;
+  highlightLabel?: string;
+  onReset: () => void;
+};
+
+// Zoom so the highlighted region fills roughly this share of the viewer.
+const TARGET_FILL = 0.7;
+const MAX_ZOOM = 4;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Returns a CSS transform that zooms to and centers the box, keeping the
+ * image edges inside the viewer.
+ */
+function getFocusTransform(box: BoundingBox | null): string {
+  if (!box) return "translate(0%, 0%) scale(1)";
+  const width = clamp(box.width, 0.01, 1);
+  const height = clamp(box.height, 0.01, 1);
+  const scale = clamp(TARGET_FILL / Math.max(width, height), 1, MAX_ZOOM);
+  const centerX = clamp(box.x, 0, 1) + width / 2;
+  const centerY = clamp(box.y, 0, 1) + height / 2;
+  const translateX = clamp(0.5 - centerX * scale, 1 - scale, 0) * 100;
+  const translateY = clamp(0.5 - centerY * scale, 1 - scale, 0) * 100;
+  return `translate(${translateX}%, ${translateY}%) scale(${scale})`;
+}
+
+export function LabelImageViewer({
+  imageDataUrl,
+  imageName,
+  highlight,
+  highlightLabel,
+  onReset,
+}: LabelImageViewerProps) {
+  if (!imageDataUrl) {
+    return (
+      <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-4 text-sm text-gray-500 dark:text-gray-400">
+        Label image not available for this result.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-2">
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className="font-semibold">
+          {highlightLabel ? `Showing: ${highlightLabel}` : "Label image"}
+        </span>
+        {highlight && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1"
+          >
+            Show full label
+          </button>
+        )}
+      </div>
+      <div className="relative overflow-hidden rounded bg-gray-100 dark:bg-gray-900">
+        <div
+          className="relative origin-top-left transition-transform duration-300 ease-out"
+          style={{ transform: getFocusTransform(highlight) }}
+        >
+          <img
+            src={imageDataUrl}
+            alt={`Label image for ${imageName}`}
+            className="block w-full h-auto"
+          />
+          {highlight && (
+            <div
+              className="absolute border-2 border-red-500 bg-red-500/10 rounded-sm pointer-events-none"
+              style={{
+                left: `${clamp(highlight.x, 0, 1) * 100}%`,
+                top: `${clamp(highlight.y, 0, 1) * 100}%`,
+                width: `${clamp(highlight.width, 0, 1) * 100}%`,
+                height: `${clamp(highlight.height, 0, 1) * 100}%`,
+              }}
+              aria-hidden="true"
+            />
+          )}
+        </div>
+      </div>
+      {highlightLabel && !highlight && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          No location was reported for this field.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,29 @@
 import type { VerificationResult } from "@/lib/schemas";
+import { isLowConfidence } from "@/lib/confidence";
+import { ConfidenceBadge } from "./ConfidenceBadge";
 
 type ResultsTableProps = {
   results: VerificationResult[];
+  selectedIndex?: number | null;
+  onSelect?: (index: number) => void;
 };
 
-export function ResultsTable({ results }: ResultsTableProps) {
+export function ResultsTable({
+  results,
+  selectedIndex = null,
+  onSelect,
+}: ResultsTableProps) {
+  const lowConfidenceFields = results
+    .filter((result) => isLowConfidence(result.confidence))
+    .map((result) => result.field);
+
   return (
     <div className="overflow-x-auto">
+      {lowConfidenceFields.length > 0 && (
+        <p className="mb-2 text-sm text-amber-700 dark:text-amber-300">
+          Low-confidence reads (check these first): {lowConfidenceFields.join(", ")}
+        </p>
+      )}
       <table className="w-full border-collapse">
         <thead>
           <tr className="bg-gray-100 dark:bg-gray-700">
@@ -31,16 +48,37 @@ export function ResultsTable({ results }: ResultsTableProps) {
           {results.map((result, index) => (
             <tr
               key={index}
+              onClick={onSelect ? () => onSelect(index) : undefined}
+              onKeyDown={
+                onSelect
+                  ? (event) => {
+                      if (event.key === "Enter" || event.key === " ") {
+                        event.preventDefault();
+                        onSelect(index);
+                      }
+                    }
+                  : undefined
+              }
+              tabIndex={onSelect ? 0 : undefined}
+              aria-selected={onSelect ? selectedIndex === index : undefined}
               className={`${
                 result.status === "✅"
                   ? "bg-green-50 dark:bg-green-900/20"
                   : result.status === "⚠️"
                   ? "bg-yellow-50 dark:bg-yellow-900/20"
                   : "bg-red-50 dark:bg-red-900/20"
+              } ${onSelect ? "cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500" : ""} ${
+                selectedIndex === index ? "outline outline-2 outline-blue-500" : ""
               }`}
             >
               <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-semibold">
                 {result.field}
+                <ConfidenceBadge confidence={result.confidence} />
+                {result.severity && (
+                  <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                    {result.severity}
+                  </span>
+                )}
               </td>
               <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">
                 <div className="max-w-xs overflow-hidden text-ellipsis">
@@ -1,25 +1,56 @@
+import { useState } from "react";
 import Link from "next/link";
 
 type ReviewActionsProps = {
   onExport: () => void;
+  onRerun: (useCurrentRules: boolean) => void;
+  // Outcome of the last re-run, one line per message.
+  notices: string[];
 };
 
-export function ReviewActions({ onExport }: ReviewActionsProps) {
+export function ReviewActions({ onExport, onRerun, notices }: ReviewActionsProps) {
+  const [useCurrentRules, setUseCurrentRules] = useState(false);
+
   return (
-    <div className="flex gap-4 justify-center">
-      <button
-        type="button"
-        onClick={onExport}
-        className="bg-gray-900 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
-      >
-        Export Results
-      </button>
-      <Link
-        href="/upload"
-        className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-      >
-        Upload More
-      </Link>
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex gap-4 justify-center">
+        <button
+          type="button"
+          onClick={onExport}
+          className="bg-gray-900 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
+        >
+          Export Results
+        </button>
+        <button
+          type="button"
+          onClick={() => onRerun(useCurrentRules)}
+          className="bg-white text-gray-900 border border-gray-300 px-6 py-3 rounded-lg font-semibold hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2 dark:bg-gray-800 dark:text-white dark:border-gray-600 dark:hover:bg-gray-700"
+        >
+          Re-run Checks
+        </button>
+        <Link
+          href="/upload"
+          className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          Upload More
+        </Link>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <input
+          type="checkbox"
+          checked={useCurrentRules}
+          onChange={(event) => setUseCurrentRules(event.target.checked)}
+          className="w-4 h-4"
+        />
+        Re-run with current rules instead of the rules each label was checked against
+      </label>
+      {notices.length > 0 && (
+        <ul className="text-sm text-gray-600 dark:text-gray-400" role="status">
+          {notices.map((notice, index) => (
+            <li key={index}>{notice}</li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -0,0 +1,75 @@
+import type { VerificationResult, WarningDiffSegment } from "@/lib/schemas";
+
+type WarningDiffPanelProps = {
+  results: VerificationResult[];
+};
+
+function DiffSegment({ segment }: { segment: WarningDiffSegment }) {
+  switch (segment.type) {
+    case "equal":
+      return <span>{segment.text}</span>;
+    case "inserted":
+      return (
+        <span
+          className="rounded bg-amber-100 px-0.5 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200"
+          title="Extra word on the label"
+        >
+          {segment.text}
+        </span>
+      );
+    case "deleted":
+      return (
+        <span
+          className="rounded bg-red-100 px-0.5 text-red-800 line-through dark:bg-red-900/40 dark:text-red-200"
+          title="Missing from the label"
+        >
+          {segment.expected}
+        </span>
+      );
+    case "substituted":
+      return (
+        <span title={`Label reads "${segment.text}", standard is "${segment.expected}"`}>
+          <span className="rounded bg-red-100 px-0.5 text-red-800 line-through dark:bg-red-900/40 dark:text-red-200">
+            {segment.text}
+          </span>{" "}
+          <span className="rounded bg-green-100 px-0.5 text-green-800 dark:bg-green-900/40 dark:text-green-200">
+            {segment.expected}
+          </span>
+        </span>
+      );
+  }
+}
+
+export function WarningDiffPanel({ results }: WarningDiffPanelProps) {
+  const warningResult = results.find(
+    (result) => result.field === "Government Warning" && result.warningDiff
+  );
+  if (!warningResult?.warningDiff) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <h3 className="font-semibold">Government Warning Differences</h3>
+      <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+        <span className="rounded bg-amber-100 px-1 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200">
+          extra word
+        </span>{" "}
+        <span className="rounded bg-red-100 px-1 text-red-800 line-through dark:bg-red-900/40 dark:text-red-200">
+          missing or misread
+        </span>{" "}
+        <span className="rounded bg-green-100 px-1 text-green-800 dark:bg-green-900/40 dark:text-green-200">
+          standard wording
+        </span>
+      </p>
+      <p className="mt-3 text-sm leading-relaxed text-gray-700 dark:text-gray-300">
+        {warningResult.warningDiff.map((segment, index) => (
+          <span key={index}>
+            {index > 0 && " "}
+            <DiffSegment segment={segment} />
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
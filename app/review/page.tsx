@@ -2,19 +2,35 @@
 
 import { useEffect, useState } from "react";
 import { LabelVerification } from "@/lib/schemas";
+import { formatWarningDiff } from "@/lib/warningDiff";
+import { reverifyLabel } from "@/lib/compare";
+import { formatRuleSet } from "@/lib/rules";
+import { formatDecisionPolicy } from "@/lib/decisionPolicy";
+import { storeVerifications } from "@/lib/upload/verificationStorage";
+import { formatPanels } from "@/lib/upload/labelGroups";
 import Link from "next/link";
 import { AdditiveDisclosurePanel } from "./components/AdditiveDisclosurePanel";
 import { AIEvaluationPanel } from "./components/AIEvaluationPanel";
 import { ExpectedDataPanel } from "./components/ExpectedDataPanel";
 import { ExtractedDataPanel } from "./components/ExtractedDataPanel";
 import { ImageSelector } from "./components/ImageSelector";
+import { LabelImageViewer } from "./components/LabelImageViewer";
 import { ResultsTable } from "./components/ResultsTable";
 import { ReviewActions } from "./components/ReviewActions";
 import { SummaryPanel } from "./components/SummaryPanel";
+import { WarningDiffPanel } from "./components/WarningDiffPanel";
 
 export default function ReviewPage() {
   const [verifications, setVerifications] = useState<LabelVerification[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [selectedResultIndex, setSelectedResultIndex] = useState<number | null>(
+    null
+  );
+  const [rerunNotices, setRerunNotices] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelectedResultIndex(null);
+  }, [selectedIndex]);
 
   useEffect(() => {
     const data = sessionStorage.getItem("verifications");
@@ -48,6 +64,10 @@ export default function ReviewPage() {
   }
 
   const currentVerification = verifications[selectedIndex];
+  const selectedResult =
+    selectedResultIndex !== null
+      ? currentVerification.results[selectedResultIndex] ?? null
+      : null;
   const passCount = verifications.filter((v) => v.overallStatus === "✅").length;
   const warningCount = verifications.filter((v) => v.overallStatus === "⚠️").length;
   const failCount = verifications.filter((v) => v.overallStatus === "❌").length;
@@ -73,6 +93,22 @@ export default function ReviewPage() {
     }
     return lines;
   };
+  const handleRerun = (useCurrentRules: boolean) => {
+    const outcomes = verifications.map((verification) =>
+      reverifyLabel(verification, { useCurrentRules })
+    );
+    const rerun = outcomes.map((outcome) => outcome.verification);
+    const skipped = outcomes.filter((outcome) => !outcome.recomputed);
+    const recomputedCount = outcomes.length - skipped.length;
+    setRerunNotices([
+      ...(recomputedCount > 0 ? [`Re-ran checks for ${recomputedCount} label(s).`] : []),
+      ...skipped.map(
+        (outcome) => `${outcome.verification.imageName} not re-run: ${outcome.notice}.`
+      ),
+    ]);
+    setVerifications(rerun);
+    storeVerifications(rerun);
+  };
   const handleExport = () => {
     const exportedAt = new Date().toISOString();
     const maxLineLength = 90;
@@ -94,11 +130,24 @@ export default function ReviewPage() {
       addText(
         `Image: ${verification.imageName} (${verification.overallStatus})`
       );
+      if (verification.panels) {
+        addText(`Panels: ${formatPanels(verification.panels)}`);
+      }
       addText(`Evaluation: ${evaluationPassed}`);
+      if (verification.ruleSet) {
+        addText(`Rules: ${formatRuleSet(verification.ruleSet)}`);
+      }
+      if (verification.decisionPolicy) {
+        addText(`Decision policy: ${formatDecisionPolicy(verification.decisionPolicy)}`);
+      }
       verification.results.forEach((result) => {
-        addText(`- ${result.field}: ${result.status} ${result.message ?? ""}`);
+        const severity = result.severity ? ` [${result.severity}]` : "";
+        addText(`- ${result.field}${severity}: ${result.status} ${result.message ?? ""}`);
         addText(`  Expected: ${result.expected}`);
         addText(`  Extracted: ${result.extracted}`);
+        if (result.warningDiff) {
+          addText(`  Diff: ${formatWarningDiff(result.warningDiff)}`);
+        }
       });
       lines.push("");
     });
@@ -202,20 +251,59 @@ export default function ReviewPage() {
           </h2>
           <div className="text-2xl">{currentVerification.overallStatus}</div>
         </div>
+        {currentVerification.panels && (
+          <p className="-mt-2 mb-4 text-xs text-gray-500 dark:text-gray-400">
+            Panels: {formatPanels(currentVerification.panels)}
+          </p>
+        )}
+        {currentVerification.ruleSet && (
+          <p className="-mt-2 mb-4 text-xs text-gray-500 dark:text-gray-400">
+            Rules: {formatRuleSet(currentVerification.ruleSet)}
+          </p>
+        )}
+        {currentVerification.decisionPolicy && (
+          <p className="-mt-2 mb-4 text-xs text-gray-500 dark:text-gray-400">
+            Decision policy: {formatDecisionPolicy(currentVerification.decisionPolicy)}
+          </p>
+        )}
 
         <AIEvaluationPanel evaluation={currentVerification.evaluation} />
         <AdditiveDisclosurePanel results={currentVerification.results} />
-        <ResultsTable results={currentVerification.results} />
+        <WarningDiffPanel results={currentVerification.results} />
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="lg:col-span-2">
+            <ResultsTable
+              results={currentVerification.results}
+              selectedIndex={selectedResultIndex}
+              onSelect={setSelectedResultIndex}
+            />
+          </div>
+          <LabelImageViewer
+            imageDataUrl={currentVerification.imageDataUrl}
+            imageName={currentVerification.imageName}
+            highlight={selectedResult?.boundingBox ?? null}
+            highlightLabel={selectedResult?.field}
+            onReset={() => setSelectedResultIndex(null)}
+          />
+        </div>
       </div>
 
       {/* Detailed View */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
         <ExpectedDataPanel data={currentVerification.expectedData} />
-        <ExtractedDataPanel data={currentVerification.extractedData} />
+        <ExtractedDataPanel
+          data={currentVerification.extractedData}
+          panels={currentVerification.panels}
+          fieldPanels={currentVerification.fieldPanels}
+        />
       </div>
 
       {/* Actions */}
-      <ReviewActions onExport={handleExport} />
+      <ReviewActions
+        onExport={handleExport}
+        onRerun={handleRerun}
+        notices={rerunNotices}
+      />
     </div>
   );
 }
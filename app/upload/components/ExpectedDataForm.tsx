@@ -17,6 +17,16 @@ const additiveOptions: Array<{
   { key: "sulfitesGe10ppm", label: "sulfites >= 10PPM" },
 ];
 
+const wineFields: Array<{
+  key: "appellation" | "vintage" | "varietal";
+  label: string;
+  placeholder: string;
+}> = [
+  { key: "appellation", label: "Appellation", placeholder: "e.g., Napa Valley" },
+  { key: "vintage", label: "Vintage", placeholder: "e.g., 2019" },
+  { key: "varietal", label: "Varietal", placeholder: "e.g., Cabernet Sauvignon" },
+];
+
 export function ExpectedDataForm({ expectedData, handlers }: ExpectedDataFormProps) {
   const requiredFields = [
     {
@@ -104,6 +114,24 @@ export function ExpectedDataForm({ expectedData, handlers }: ExpectedDataFormPro
             aria-label="Expected country of origin"
           />
         </div>
+        {wineFields.map((field) => (
+          <div key={field.key}>
+            <label htmlFor={field.key} className="block font-semibold mb-1">
+              {field.label} (Optional, wine)
+            </label>
+            <input
+              id={field.key}
+              type="text"
+              value={expectedData[field.key]?.text ?? ""}
+              onChange={(event) =>
+                handlers.updateOptionalField(field.key, event.target.value)
+              }
+              placeholder={field.placeholder}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={`Expected ${field.label.toLowerCase()}`}
+            />
+          </div>
+        ))}
         <div>
           <label htmlFor="ageYears" className="block font-semibold mb-1">
             Age (Years) (Optional)
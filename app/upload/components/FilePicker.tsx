@@ -15,13 +15,15 @@ export function FilePicker({ mode, onChange }: FilePickerProps) {
       >
         <span className="text-4xl mb-2 block">📁</span>
         <span className="text-gray-600 dark:text-gray-400">
-          Click to select {mode === "single" ? "an image" : "images"}
+          Click to select{" "}
+          {mode === "single" ? "an image, or one per label panel" : "images"}
+          {" "}(PDF proofs accepted)
         </span>
         <input
           id="file-upload"
           type="file"
-          accept="image/*"
-          multiple={mode === "batch"}
+          accept="image/*,application/pdf"
+          multiple
           onChange={onChange}
           className="hidden"
           aria-label={`Upload ${mode === "single" ? "single" : "multiple"} image(s)`}
@@ -1,4 +1,5 @@
 import type { ChangeEvent } from "react";
+import type { SelectedImage } from "@/lib/upload/labelGroups";
 import type { UploadMode } from "./ModeSelector";
 import { FilePicker } from "./FilePicker";
 import { FolderPicker } from "./FolderPicker";
@@ -7,18 +8,23 @@ import Link from "next/link";
 
 type ImageUploadCardProps = {
   mode: UploadMode;
-  files: File[];
+  images: SelectedImage[];
   fileError?: string | null;
   onFileChange: (event: ChangeEvent<HTMLInputElement>) => void;
   onFolderChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onImageChange: (
+    index: number,
+    changes: Partial<Pick<SelectedImage, "labelName" | "role">>
+  ) => void;
 };
 
 export function ImageUploadCard({
   mode,
-  files,
+  images,
   fileError,
   onFileChange,
   onFolderChange,
+  onImageChange,
 }: ImageUploadCardProps) {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
@@ -46,7 +52,7 @@ export function ImageUploadCard({
         </p>
       )}
       
-      <SelectedFilesList files={files} />
+      <SelectedFilesList mode={mode} images={images} onImageChange={onImageChange} />
     </div>
   );
 }
\ No newline at end of file
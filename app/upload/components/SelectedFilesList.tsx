@@ -1,19 +1,116 @@
+import type { LabelPanelRole } from "@/lib/schemas";
+import { PANEL_ROLES, type SelectedImage } from "@/lib/upload/labelGroups";
+import type { UploadMode } from "./ModeSelector";
+
 type SelectedFilesListProps = {
-  files: File[];
+  mode: UploadMode;
+  images: SelectedImage[];
+  onImageChange: (
+    index: number,
+    changes: Partial<Pick<SelectedImage, "labelName" | "role">>
+  ) => void;
 };
 
-export function SelectedFilesList({ files }: SelectedFilesListProps) {
-  if (files.length === 0) return null;
+const FIELD_CLASS_NAME =
+  "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+function QualitySummary({ quality }: { quality: SelectedImage["quality"] }) {
+  if (quality === null) return null;
+  if (quality === undefined) {
+    return (
+      <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+        Checking image quality...
+      </p>
+    );
+  }
+
+  const issues = quality.flatMap((report) =>
+    report.issues.map((issue) => ({
+      ...issue,
+      text: quality.length > 1 ? `${report.name}: ${issue.message}` : issue.message,
+    }))
+  );
+  if (issues.length === 0) {
+    return (
+      <p className="w-full text-xs text-green-600 dark:text-green-400">
+        ✅ Image quality OK
+      </p>
+    );
+  }
+  return (
+    <ul className="w-full text-xs space-y-0.5">
+      {issues.map((issue, index) => (
+        <li
+          key={index}
+          className={
+            issue.level === "reject"
+              ? "text-red-600 dark:text-red-400"
+              : "text-yellow-600 dark:text-yellow-400"
+          }
+        >
+          {issue.level === "reject" ? "❌" : "⚠️"} {issue.text}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function SelectedFilesList({ mode, images, onImageChange }: SelectedFilesListProps) {
+  if (images.length === 0) return null;
 
   return (
     <div className="mt-4">
       <h3 className="font-semibold mb-2">Selected Files:</h3>
-      <ul className="list-disc list-inside space-y-1">
-        {files.map((file, index) => (
-          <li key={index} className="text-sm text-gray-600 dark:text-gray-400">
-            {(file as File & { webkitRelativePath?: string }).webkitRelativePath ||
-              file.name}{" "}
-            ({(file.size / 1024).toFixed(2)} KB)
+      {mode === "batch" ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Give the front, back and neck images of one label the same label name
+          to verify them together.
+        </p>
+      ) : (
+        images.length > 1 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            These images are verified together as panels of one label.
+          </p>
+        )
+      )}
+      <ul className="space-y-2">
+        {images.map((image, index) => (
+          <li
+            key={index}
+            className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400"
+          >
+            <span className="flex-1 min-w-0 truncate">
+              {(image.file as File & { webkitRelativePath?: string }).webkitRelativePath ||
+                image.file.name}{" "}
+              ({(image.file.size / 1024).toFixed(2)} KB)
+            </span>
+            {mode === "batch" && (
+              <input
+                type="text"
+                value={image.labelName}
+                onChange={(event) => onImageChange(index, { labelName: event.target.value })}
+                className={FIELD_CLASS_NAME}
+                aria-label={`Label name for ${image.file.name}`}
+              />
+            )}
+            <select
+              value={image.role ?? ""}
+              onChange={(event) =>
+                onImageChange(index, {
+                  role: (event.target.value || null) as LabelPanelRole | null,
+                })
+              }
+              className={FIELD_CLASS_NAME}
+              aria-label={`Panel for ${image.file.name}`}
+            >
+              <option value="">Panel</option>
+              {PANEL_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role.charAt(0).toUpperCase() + role.slice(1)}
+                </option>
+              ))}
+            </select>
+            <QualitySummary quality={image.quality} />
           </li>
         ))}
       </ul>
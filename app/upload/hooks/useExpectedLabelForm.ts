@@ -11,7 +11,7 @@ type RequiredFieldKey =
   | "netContents"
   | "bottlerProducer";
 
-type OptionalFieldKey = "countryOfOrigin";
+type OptionalFieldKey = "countryOfOrigin" | "appellation" | "vintage" | "varietal";
 
 type FlagFieldKey = "isImported" | "beerHasAddedFlavorsWithAlcohol";
 
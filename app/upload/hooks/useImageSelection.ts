@@ -1,15 +1,23 @@
-import { useState, type ChangeEvent } from "react";
+import { useRef, useState, type ChangeEvent } from "react";
+import { checkImageQuality } from "@/lib/ocr";
 import { filterImageFiles } from "@/lib/upload/imageFiles";
+import { inferPanelRole, type SelectedImage } from "@/lib/upload/labelGroups";
 import { MAX_UPLOAD_BYTES } from "@/lib/upload/constants";
 
+type ImageChanges = Partial<Pick<SelectedImage, "labelName" | "role">>;
+
 export function useImageSelection(): {
   files: File[];
+  images: SelectedImage[];
   fileError: string | null;
   handleFileChange: (event: ChangeEvent<HTMLInputElement>) => void;
   handleFolderChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  updateImage: (index: number, changes: ImageChanges) => void;
 } {
-  const [files, setFiles] = useState<File[]>([]);
+  const [images, setImages] = useState<SelectedImage[]>([]);
   const [fileError, setFileError] = useState<string | null>(null);
+  // Identifies the latest selection so checks for a replaced one are dropped.
+  const selectionRef = useRef(0);
 
   const buildFileError = (rejected: File[]) => {
     if (rejected.length === 0) return null;
@@ -21,12 +29,33 @@ export function useImageSelection(): {
 
   const handleFiles = (fileList: FileList | null) => {
     if (!fileList) return;
-    const images = filterImageFiles(fileList);
-    const accepted = images.filter((file) => file.size <= MAX_UPLOAD_BYTES);
-    const rejected = images.filter((file) => file.size > MAX_UPLOAD_BYTES);
+    const selected = filterImageFiles(fileList);
+    const accepted = selected.filter((file) => file.size <= MAX_UPLOAD_BYTES);
+    const rejected = selected.filter((file) => file.size > MAX_UPLOAD_BYTES);
 
-    setFiles(accepted);
+    // Each image starts as its own label; users group panels by giving them
+    // the same label name.
+    setImages(
+      accepted.map((file) => ({
+        file,
+        labelName: file.name,
+        role: inferPanelRole(file.name),
+      }))
+    );
     setFileError(buildFileError(rejected));
+    void checkSelectedImages(accepted);
+  };
+
+  // Checked one at a time so a large folder does not flood the server.
+  const checkSelectedImages = async (selected: File[]) => {
+    const selection = ++selectionRef.current;
+    for (const file of selected) {
+      const quality = await checkImageQuality(file);
+      if (selection !== selectionRef.current) return;
+      setImages((current) =>
+        current.map((image) => (image.file === file ? { ...image, quality } : image))
+      );
+    }
   };
 
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
@@ -37,5 +66,20 @@ export function useImageSelection(): {
     handleFiles(event.target.files);
   };
 
-  return { files, fileError, handleFileChange, handleFolderChange };
+  const updateImage = (index: number, changes: ImageChanges) => {
+    setImages((current) =>
+      current.map((image, i) => (i === index ? { ...image, ...changes } : image))
+    );
+  };
+
+  const files = images.map((image) => image.file);
+
+  return {
+    files,
+    images,
+    fileError,
+    handleFileChange,
+    handleFolderChange,
+    updateImage,
+  };
 }
@@ -2,10 +2,25 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { batchExtractLabelData, extractLabelData } from "@/lib/ocr";
+import {
+  batchExtractLabelData,
+  extractLabelPanelData,
+  fetchExtractionDefaults,
+} from "@/lib/ocr";
+import { MAX_LABEL_PANELS } from "@/lib/schemas";
 import type { ExpectedAlcoholLabel, LabelVerification } from "@/lib/schemas";
 import { calculateOverallStatus, compareLabels } from "@/lib/compare";
+import { DEFAULT_DECISION_POLICY } from "@/lib/decisionPolicy";
 import { CSV_PARALLEL_LIMIT } from "@/lib/upload/constants";
+import { createImagePreview } from "@/lib/upload/imagePreview";
+import { storeVerifications } from "@/lib/upload/verificationStorage";
+import {
+  dropOtherPanelBoxes,
+  getRejectedImages,
+  groupLabelImages,
+  type LabelImageGroup,
+} from "@/lib/upload/labelGroups";
+import { getCurrentRuleSet } from "@/lib/rules";
 import {
   getExpectedDataValidationError,
   normalizeExpectedData,
@@ -20,7 +35,7 @@ import { useCsvExpectedData } from "./hooks/useCsvExpectedData";
 import { useExpectedLabelForm } from "./hooks/useExpectedLabelForm";
 import { useImageSelection } from "./hooks/useImageSelection";
 
-type ExtractionResult = Awaited<ReturnType<typeof extractLabelData>>;
+type ExtractionResult = Awaited<ReturnType<typeof extractLabelPanelData>>;
 
 type CsvMatchResult = {
   missing: string[];
@@ -28,37 +43,63 @@ type CsvMatchResult = {
 };
 
 function getMissingCsvMatches(
-  files: File[],
+  labels: LabelImageGroup[],
   csvExpectedMap: CsvExpectedMap
 ): CsvMatchResult {
-  const missing = files.filter((file) => !csvExpectedMap[file.name]);
+  const missing = labels.filter((label) => !csvExpectedMap[label.name]);
   return {
-    missing: missing.map((file) => file.name),
+    missing: missing.map((label) => label.name),
     hasMissing: missing.length > 0,
   };
 }
 
 function buildVerification(
   imageId: string,
-  imageName: string,
+  label: LabelImageGroup,
   extractedResult: ExtractionResult,
-  expected: ExpectedAlcoholLabel
+  expected: ExpectedAlcoholLabel,
+  imageDataUrl: string | null
 ): LabelVerification {
+  const ruleSet = getCurrentRuleSet();
+  const decisionPolicy = DEFAULT_DECISION_POLICY;
+  const { fieldPanels, quality } = extractedResult;
+  // The review page previews the first panel only.
+  const extractedData = fieldPanels
+    ? dropOtherPanelBoxes(extractedResult.label, fieldPanels, label.panels[0].file.name)
+    : extractedResult.label;
   const results = compareLabels(
-    extractedResult.label,
+    extractedData,
     expected,
-    extractedResult.evaluation
+    extractedResult.evaluation,
+    ruleSet,
+    decisionPolicy,
+    quality
   );
-  const overallStatus = calculateOverallStatus(results);
+  const overallStatus = calculateOverallStatus(results, decisionPolicy);
 
   return {
     imageId,
-    imageName,
-    extractedData: extractedResult.label,
+    imageName: label.name,
+    // Bounding boxes refer to the corrected image when geometry was corrected.
+    // Browsers cannot decode PDFs, so their rasterized first page is shown.
+    imageDataUrl:
+      extractedResult.correctedImage ??
+      imageDataUrl ??
+      extractedResult.pageImage ??
+      undefined,
+    panels:
+      label.panels.length > 1
+        ? label.panels.map(({ file, role }) => ({ name: file.name, role }))
+        : undefined,
+    fieldPanels: fieldPanels ?? undefined,
+    imageQuality: quality ?? undefined,
+    extractedData,
     expectedData: expected,
     evaluation: extractedResult.evaluation,
     results,
     overallStatus,
+    ruleSet,
+    decisionPolicy,
   };
 }
 
@@ -68,6 +109,7 @@ export default function UploadPage() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [queueNotice, setQueueNotice] = useState<string | null>(null);
+  const [correctGeometry, setCorrectGeometry] = useState(false);
 
   useEffect(() => {
     if (!isProcessing) {
@@ -82,38 +124,61 @@ export default function UploadPage() {
     return () => clearTimeout(timer);
   }, [isProcessing]);
 
-  const { files, fileError, handleFileChange, handleFolderChange } =
-    useImageSelection();
+  // Start from the server's CORRECT_LABEL_GEOMETRY setting.
+  useEffect(() => {
+    let cancelled = false;
+    fetchExtractionDefaults().then((defaults) => {
+      if (!cancelled && defaults) {
+        setCorrectGeometry(defaults.correctGeometry);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const {
+    files,
+    images,
+    fileError,
+    handleFileChange,
+    handleFolderChange,
+    updateImage,
+  } = useImageSelection();
   const { expectedData, handlers: expectedHandlers } = useExpectedLabelForm();
   const { csvExpectedMap, csvError, handleCsvChange } = useCsvExpectedData();
+  // Always sent, so unchecking turns correction off even when the server
+  // enables it by default.
+  const extractOptions = { correctGeometry };
 
   const processCsvBatch = async (
     runId: number,
+    labels: LabelImageGroup[],
     expectedMap: CsvExpectedMap
   ): Promise<LabelVerification[]> => {
-    const total = files.length;
+    const total = labels.length;
     let completed = 0;
     const verifications: LabelVerification[] = [];
 
-    for (let i = 0; i < files.length; i += CSV_PARALLEL_LIMIT) {
-      const batch = files.slice(i, i + CSV_PARALLEL_LIMIT);
+    for (let i = 0; i < labels.length; i += CSV_PARALLEL_LIMIT) {
+      const batch = labels.slice(i, i + CSV_PARALLEL_LIMIT);
       const batchResults = await Promise.all(
-        batch.map(async (file, index) => {
-          const expected = expectedMap[file.name];
-          const extractedResult = await extractLabelData(
-            file,
-            file.name,
-            expected
-          );
+        batch.map(async (label, index) => {
+          const expected = expectedMap[label.name];
+          const [extractedResult, imageDataUrl] = await Promise.all([
+            extractLabelPanelData(label.panels, label.name, expected, extractOptions),
+            createImagePreview(label.panels[0].file),
+          ]);
 
           completed += 1;
           setProgress(Math.round((completed / total) * 100));
 
           return buildVerification(
             `img-${runId}-${i + index}`,
-            file.name,
+            label,
             extractedResult,
-            expected
+            expected,
+            imageDataUrl
           );
         })
       );
@@ -126,27 +191,48 @@ export default function UploadPage() {
 
   const processSingle = async (
     runId: number,
-    file: File,
+    label: LabelImageGroup,
     expected: ExpectedAlcoholLabel
   ): Promise<LabelVerification[]> => {
-    const extractedResult = await extractLabelData(file, file.name, expected);
+    const [extractedResult, imageDataUrl] = await Promise.all([
+      extractLabelPanelData(label.panels, label.name, expected, extractOptions),
+      createImagePreview(label.panels[0].file),
+    ]);
     setProgress(100);
 
-    return [buildVerification(`img-${runId}`, file.name, extractedResult, expected)];
+    return [
+      buildVerification(
+        `img-${runId}`,
+        label,
+        extractedResult,
+        expected,
+        imageDataUrl
+      ),
+    ];
   };
 
   const processBatch = async (
     runId: number,
+    labels: LabelImageGroup[],
     expected: ExpectedAlcoholLabel
   ): Promise<LabelVerification[]> => {
-    const total = files.length;
-    const extractedResults = await batchExtractLabelData(files, expected);
+    const total = labels.length;
+    const [extractedResults, previews] = await Promise.all([
+      batchExtractLabelData(labels, expected, extractOptions),
+      Promise.all(labels.map((label) => createImagePreview(label.panels[0].file))),
+    ]);
     const verifications: LabelVerification[] = [];
 
     for (let i = 0; i < extractedResults.length; i++) {
-      const { name, data: extractedResult } = extractedResults[i];
+      const { data: extractedResult } = extractedResults[i];
       verifications.push(
-        buildVerification(`img-${runId}-${i}`, name, extractedResult, expected)
+        buildVerification(
+          `img-${runId}-${i}`,
+          labels[i],
+          extractedResult,
+          expected,
+          previews[i]
+        )
       );
       setProgress(Math.round(((i + 1) / total) * 100));
     }
@@ -160,9 +246,29 @@ export default function UploadPage() {
       return;
     }
 
+    const unusable = getRejectedImages(images);
+    if (unusable.length > 0) {
+      alert(
+        `Image quality too low to verify: ${unusable
+          .map((image) => image.file.name)
+          .join(", ")}. Replace or remove these images.`
+      );
+      return;
+    }
+
+    const labels = groupLabelImages(images, { singleLabel: mode === "single" });
+    const oversized = labels.filter((label) => label.panels.length > MAX_LABEL_PANELS);
+    if (oversized.length > 0) {
+      alert(
+        `A label can have at most ${MAX_LABEL_PANELS} images: ${oversized
+          .map((label) => label.name)
+          .join(", ")}`
+      );
+      return;
+    }
     if (csvExpectedMap) {
       const { missing, hasMissing } = getMissingCsvMatches(
-        files,
+        labels,
         csvExpectedMap
       );
       if (hasMissing) {
@@ -190,18 +296,18 @@ export default function UploadPage() {
       let verifications: LabelVerification[] = [];
 
       if (csvExpectedMap) {
-        verifications = await processCsvBatch(runId, csvExpectedMap);
+        verifications = await processCsvBatch(runId, labels, csvExpectedMap);
       } else if (mode === "single") {
         verifications = await processSingle(
           runId,
-          files[0],
+          labels[0],
           normalizedExpectedData
         );
       } else {
-        verifications = await processBatch(runId, normalizedExpectedData);
+        verifications = await processBatch(runId, labels, normalizedExpectedData);
       }
 
-      sessionStorage.setItem("verifications", JSON.stringify(verifications));
+      storeVerifications(verifications);
       router.push("/review");
     } catch (error) {
       console.error("Error processing images:", error);
@@ -223,10 +329,11 @@ export default function UploadPage() {
 
       <ImageUploadCard
         mode={mode}
-        files={files}
+        images={images}
         fileError={fileError}
         onFileChange={handleFileChange}
         onFolderChange={handleFolderChange}
+        onImageChange={updateImage}
       />
 
       {mode === "batch" && (
@@ -242,6 +349,16 @@ export default function UploadPage() {
       )}
 
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <label className="flex items-center gap-2 mb-4 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={correctGeometry}
+            onChange={(event) => setCorrectGeometry(event.target.checked)}
+            disabled={isProcessing}
+            className="w-4 h-4"
+          />
+          Straighten label photos (deskew, crop and perspective) before extraction
+        </label>
         <button
           onClick={processImages}
           disabled={isProcessing || files.length === 0}
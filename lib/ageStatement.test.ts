@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { formatYears, getMinimumAge, parseAgeYears } from "@/lib/ageStatement";
+
+describe("parseAgeYears", () => {
+  it("reads years in digits", () => {
+    expect(parseAgeYears("Aged 4 Years")).toBe(4);
+    expect(parseAgeYears("12 YEAR OLD")).toBe(12);
+    expect(parseAgeYears("4 YRS")).toBe(4);
+  });
+
+  it("reads spelled-out years", () => {
+    expect(parseAgeYears("AGED FOUR YEARS")).toBe(4);
+    expect(parseAgeYears("twenty-one years old")).toBe(21);
+    expect(parseAgeYears("Aged Twelve Years")).toBe(12);
+  });
+
+  it("reads yo abbreviations", () => {
+    expect(parseAgeYears("10 yo")).toBe(10);
+    expect(parseAgeYears("12 Y.O.")).toBe(12);
+  });
+
+  it("converts months to years", () => {
+    expect(parseAgeYears("Aged 18 Months")).toBe(1.5);
+  });
+
+  it("returns null when no age can be read", () => {
+    expect(parseAgeYears("Aged in oak barrels")).toBeNull();
+    expect(parseAgeYears("")).toBeNull();
+  });
+});
+
+describe("getMinimumAge", () => {
+  it("applies the strictest designation", () => {
+    expect(getMinimumAge("Bottled in Bond Straight Bourbon Whiskey")?.minYears).toBe(4);
+    expect(getMinimumAge("Straight Rye Whiskey")?.minYears).toBe(2);
+    expect(getMinimumAge("Vodka")).toBeNull();
+  });
+});
+
+describe("formatYears", () => {
+  it("uses the singular for one year", () => {
+    expect(formatYears(1)).toBe("1 year");
+    expect(formatYears(1.5)).toBe("1.5 years");
+  });
+});
@@ -0,0 +1,73 @@
+// Age statement parsing and class/type minimum-age rules.
+
+export type MinimumAgeRule = {
+  // Class/type wording that triggers the rule.
+  designation: string;
+  minYears: number;
+};
+
+// Minimum ages implied by class/type wording (27 CFR 5.22 and 5.88).
+const MINIMUM_AGE_RULES: Array<MinimumAgeRule & { pattern: RegExp }> = [
+  { designation: "Bottled in Bond", minYears: 4, pattern: /\bbottled[\s-]+in[\s-]+bond\b/i },
+  { designation: "Straight", minYears: 2, pattern: /\bstraight\b/i },
+];
+
+const UNIT_WORDS = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine",
+  "ten", "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen",
+  "seventeen", "eighteen", "nineteen",
+];
+const TENS_WORDS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty"];
+
+// Spelled-out numbers up to sixty-nine, e.g. "four" or "twenty-one".
+const NUMBER_WORD_PATTERN = new RegExp(
+  `\\b(?:(${TENS_WORDS.filter(Boolean).join("|")})(?:[\\s-]+(${UNIT_WORDS.slice(1, 10).join("|")}))?|(${UNIT_WORDS.join("|")}))\\b`,
+  "gi"
+);
+
+const roundHundredth = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Replaces spelled-out numbers with digits ("Aged Four Years" -> "Aged 4 Years").
+ */
+function replaceNumberWords(text: string): string {
+  return text.replace(NUMBER_WORD_PATTERN, (_, tens?: string, ones?: string, unit?: string) => {
+    if (unit) return String(UNIT_WORDS.indexOf(unit.toLowerCase()));
+    const value =
+      TENS_WORDS.indexOf((tens ?? "").toLowerCase()) * 10 +
+      (ones ? UNIT_WORDS.indexOf(ones.toLowerCase()) : 0);
+    return String(value);
+  });
+}
+
+/**
+ * Parses an age statement such as "Aged 4 Years", "AGED FOUR YEARS",
+ * "12 YEAR OLD", "10 yo", "4 YRS" or "Aged 18 Months" into years. Null when
+ * no age can be read.
+ */
+export function parseAgeYears(text?: string | null): number | null {
+  if (!text) return null;
+  const match = replaceNumberWords(text).match(
+    /(\d+(?:\.\d+)?)[\s-]*(years?|yrs?|y\.?\s?o|months?|mos?)\b/i
+  );
+  if (!match) return null;
+  const value = Number.parseFloat(match[1]);
+  return /^mo/i.test(match[2]) ? roundHundredth(value / 12) : value;
+}
+
+/**
+ * Returns the strictest minimum age implied by a class/type, or null when the
+ * designation implies none.
+ */
+export function getMinimumAge(classType?: string | null): MinimumAgeRule | null {
+  if (!classType) return null;
+  const rule = MINIMUM_AGE_RULES.find((entry) => entry.pattern.test(classType));
+  return rule ? { designation: rule.designation, minYears: rule.minYears } : null;
+}
+
+/**
+ * Formats years for messages, e.g. 1 -> "1 year", 1.5 -> "1.5 years".
+ */
+export function formatYears(years: number): string {
+  return `${years} ${years === 1 ? "year" : "years"}`;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkAbvTolerance,
+  checkProofConsistency,
+  parseAlcoholContent,
+} from "@/lib/alcoholContent";
+
+describe("parseAlcoholContent", () => {
+  it("reads a percentage", () => {
+    expect(parseAlcoholContent("ALC. 40% BY VOL.")).toEqual({
+      abv: 40,
+      proof: null,
+      source: "percent",
+    });
+    expect(parseAlcoholContent("13.5% ALC/VOL")?.abv).toBe(13.5);
+  });
+
+  it("reads a decimal comma", () => {
+    expect(parseAlcoholContent("ALC 12,5% VOL")?.abv).toBe(12.5);
+    expect(parseAlcoholContent("5,0 % vol")?.abv).toBe(5);
+  });
+
+  it("halves proof when no percentage is given", () => {
+    expect(parseAlcoholContent("80 PROOF")).toEqual({ abv: 40, proof: 80, source: "proof" });
+  });
+
+  it("prefers the percentage and keeps the proof", () => {
+    expect(parseAlcoholContent("45% ALC/VOL (90 PROOF)")).toEqual({
+      abv: 45,
+      proof: 90,
+      source: "percent",
+    });
+  });
+
+  it("falls back to the first number", () => {
+    expect(parseAlcoholContent("ALC 7 BY VOL")?.source).toBe("number");
+    expect(parseAlcoholContent("no alcohol statement")).toBeNull();
+  });
+});
+
+describe("checkAbvTolerance", () => {
+  it("allows 0.3 points for spirits", () => {
+    expect(checkAbvTolerance("40.3%", "40%", "spirits")?.withinTolerance).toBe(true);
+    expect(checkAbvTolerance("40.5%", "40%", "spirits")?.withinTolerance).toBe(false);
+  });
+
+  it("compares decimal-comma statements", () => {
+    expect(checkAbvTolerance("ALC 12,5% VOL", "12.5%", "wine")?.withinTolerance).toBe(true);
+  });
+
+  it("uses the table wine and high-ABV wine tolerances", () => {
+    expect(checkAbvTolerance("13.5%", "12%", "wine")?.withinTolerance).toBe(true);
+    expect(checkAbvTolerance("16%", "15.5%", "wine")?.tolerance).toBe(1);
+  });
+
+  it("fails wine that crosses the 14% tax class line", () => {
+    const check = checkAbvTolerance("14.5%", "13.8%", "wine");
+    expect(check?.crossesTaxClass).toBe(true);
+    expect(check?.withinTolerance).toBe(false);
+  });
+});
+
+describe("checkProofConsistency", () => {
+  it("flags proof that is not twice the ABV", () => {
+    expect(checkProofConsistency("40%", "86 proof")?.consistent).toBe(false);
+    expect(checkProofConsistency("40%", "80 proof")?.consistent).toBe(true);
+  });
+});
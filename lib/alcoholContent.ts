@@ -0,0 +1,174 @@
+// Alcohol content parsing and TTB labeling tolerance checks.
+
+export type AbvProductClass = "spirits" | "wine" | "malt";
+
+export type ParsedAlcoholContent = {
+  abv: number;
+  // Proof printed on the label, if any.
+  proof: number | null;
+  // Which marker the ABV was read from.
+  source: "percent" | "proof" | "number";
+};
+
+export type AbvToleranceCheck = {
+  labelAbv: number;
+  expectedAbv: number;
+  // Label value minus expected value.
+  deviation: number;
+  tolerance: number;
+  // Wine only: label and expected values fall on opposite sides of 14%.
+  crossesTaxClass: boolean;
+  withinTolerance: boolean;
+};
+
+export type ProofConsistencyCheck = {
+  abv: number;
+  proof: number;
+  // Twice the stated ABV.
+  expectedProof: number;
+  consistent: boolean;
+};
+
+// 27 CFR 5.65 (spirits) and 7.65 (malt beverages).
+const SPIRITS_TOLERANCE = 0.3;
+const MALT_TOLERANCE = 0.3;
+// 27 CFR 4.36: wines over 14% get a tighter tolerance than table wines, and
+// no tolerance may carry a wine across the 14% tax class line.
+const WINE_HIGH_ABV_THRESHOLD = 14;
+const WINE_HIGH_ABV_TOLERANCE = 1.0;
+const WINE_TABLE_TOLERANCE = 1.5;
+
+// Allowed gap between the stated proof and twice the ABV (whole-degree rounding).
+const PROOF_ROUNDING = 0.5;
+
+const PRODUCT_CLASS_LABELS: Record<AbvProductClass, string> = {
+  spirits: "distilled spirits",
+  wine: "wine",
+  malt: "malt beverages",
+};
+
+const roundHundredth = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parses statements such as "ALC. 40% BY VOL.", "13.5% ALC/VOL", "ALC 12,5% VOL"
+ * or "80 PROOF". A percentage wins over proof; proof alone is halved. Falls
+ * back to the first number when neither marker is present.
+ */
+export function parseAlcoholContent(text?: string | null): ParsedAlcoholContent | null {
+  if (!text) return null;
+  // A comma between digits is a decimal comma, so "12,5%" is not read as 5%.
+  const normalized = text.replace(/(\d),(?=\d)/g, "$1.");
+  const percentMatch = normalized.match(/(\d+(?:\.\d+)?)\s*%/);
+  const proofMatch = normalized.match(/(\d+(?:\.\d+)?)\s*°?\s*proof/i);
+  const proof = proofMatch ? Number.parseFloat(proofMatch[1]) : null;
+
+  if (percentMatch) {
+    return { abv: Number.parseFloat(percentMatch[1]), proof, source: "percent" };
+  }
+  if (proof !== null) {
+    return { abv: proof / 2, proof, source: "proof" };
+  }
+  const numberMatch = normalized.match(/(\d+(?:\.\d+)?)/);
+  return numberMatch
+    ? { abv: Number.parseFloat(numberMatch[1]), proof: null, source: "number" }
+    : null;
+}
+
+/**
+ * Returns the allowed deviation in ABV percentage points for a product class.
+ */
+export function getAbvTolerance(productClass: AbvProductClass, labelAbv: number): number {
+  switch (productClass) {
+    case "spirits":
+      return SPIRITS_TOLERANCE;
+    case "malt":
+      return MALT_TOLERANCE;
+    case "wine":
+      return labelAbv > WINE_HIGH_ABV_THRESHOLD
+        ? WINE_HIGH_ABV_TOLERANCE
+        : WINE_TABLE_TOLERANCE;
+  }
+}
+
+/**
+ * Compares a label ABV statement with the expected value using the tolerance
+ * for the product class. Returns null when either value cannot be parsed.
+ */
+export function checkAbvTolerance(
+  labelText: string,
+  expectedText: string,
+  productClass: AbvProductClass
+): AbvToleranceCheck | null {
+  const label = parseAlcoholContent(labelText);
+  const expected = parseAlcoholContent(expectedText);
+  if (!label || !expected) return null;
+
+  const deviation = roundHundredth(label.abv - expected.abv);
+  const tolerance = getAbvTolerance(productClass, label.abv);
+  const crossesTaxClass =
+    productClass === "wine" &&
+    (label.abv > WINE_HIGH_ABV_THRESHOLD) !== (expected.abv > WINE_HIGH_ABV_THRESHOLD);
+  return {
+    labelAbv: label.abv,
+    expectedAbv: expected.abv,
+    deviation,
+    tolerance,
+    crossesTaxClass,
+    withinTolerance: Math.abs(deviation) <= tolerance && !crossesTaxClass,
+  };
+}
+
+/**
+ * Describes a tolerance check, e.g. "Label 40% ABV vs 40.5% expected
+ * (-0.5 points) exceeds the ±0.3 tolerance for distilled spirits".
+ */
+export function formatAbvToleranceMessage(
+  check: AbvToleranceCheck,
+  productClass: AbvProductClass
+): string {
+  const sign = check.deviation > 0 ? "+" : "";
+  if (check.crossesTaxClass) {
+    return (
+      `Label ${check.labelAbv}% ABV vs ${check.expectedAbv}% expected ` +
+      `(${sign}${check.deviation} points) crosses the ${WINE_HIGH_ABV_THRESHOLD}% ` +
+      `tax class line for wine`
+    );
+  }
+  const verdict = check.withinTolerance ? "is within" : "exceeds";
+  return (
+    `Label ${check.labelAbv}% ABV vs ${check.expectedAbv}% expected ` +
+    `(${sign}${check.deviation} points) ${verdict} the ±${check.tolerance} ` +
+    `tolerance for ${PRODUCT_CLASS_LABELS[productClass]}`
+  );
+}
+
+/**
+ * Checks that a printed proof is twice the printed ABV. Both values come from
+ * the label itself, so no expected data is needed. Returns null unless the
+ * label shows both a percentage and a proof.
+ */
+export function checkProofConsistency(
+  alcoholContentText?: string | null,
+  proofText?: string | null
+): ProofConsistencyCheck | null {
+  const stated = parseAlcoholContent(alcoholContentText);
+  const proof = parseAlcoholContent(proofText)?.proof ?? stated?.proof ?? null;
+  if (!stated || stated.source !== "percent" || proof === null) return null;
+
+  const expectedProof = roundHundredth(stated.abv * 2);
+  return {
+    abv: stated.abv,
+    proof,
+    expectedProof,
+    consistent: Math.abs(proof - expectedProof) <= PROOF_ROUNDING,
+  };
+}
+
+/**
+ * Describes a proof check, e.g. "Label states 86 proof but 40% ABV is 80 proof".
+ */
+export function formatProofConsistencyMessage(check: ProofConsistencyCheck): string {
+  return check.consistent
+    ? `Label states ${check.proof} proof, consistent with ${check.abv}% ABV`
+    : `Label states ${check.proof} proof but ${check.abv}% ABV is ${check.expectedProof} proof`;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareBottlerStatements,
+  isUnitedStates,
+  normalizeUsState,
+  parseBottlerStatement,
+} from "@/lib/bottlerStatement";
+
+describe("parseBottlerStatement", () => {
+  it("splits role, company, city and state", () => {
+    expect(parseBottlerStatement("Bottled by Sazerac Co., Frankfort, KY")).toEqual({
+      role: "Bottled by",
+      company: "Sazerac Co.",
+      city: "Frankfort",
+      state: "Kentucky",
+      country: null,
+    });
+  });
+
+  it("keeps corporate suffixes with the company", () => {
+    const statement = parseBottlerStatement(
+      "Distilled and Bottled by Old Tom Distillery, Inc., Louisville, Kentucky 40202, USA"
+    );
+    expect(statement.role).toBe("Distilled and Bottled by");
+    expect(statement.company).toBe("Old Tom Distillery, Inc.");
+    expect(statement.city).toBe("Louisville");
+    expect(statement.state).toBe("Kentucky");
+    expect(statement.country).toBe("United States");
+  });
+
+  it("reads canned and ampersand role phrases", () => {
+    expect(parseBottlerStatement("Brewed & Canned by Hop Co., Denver, CO").role).toBe(
+      "Brewed & Canned by"
+    );
+  });
+
+  it("reads role phrases ending in for", () => {
+    const statement = parseBottlerStatement("Bottled for Stone's Throw Spirits, Austin, TX");
+    expect(statement.role).toBe("Bottled for");
+    expect(statement.company).toBe("Stone's Throw Spirits");
+  });
+
+  it("reads a foreign country", () => {
+    const statement = parseBottlerStatement("Produced by Maison Leroux, Beaune, France");
+    expect(statement.company).toBe("Maison Leroux");
+    expect(statement.city).toBe("Beaune");
+    expect(statement.country).toBe("France");
+  });
+
+  it("leaves the role empty when no role phrase is printed", () => {
+    expect(parseBottlerStatement("Sazerac Co., Frankfort, KY").role).toBeNull();
+  });
+});
+
+describe("compareBottlerStatements", () => {
+  it("reports only the part that differs", () => {
+    const findings = compareBottlerStatements(
+      parseBottlerStatement("Bottled by Sazerac Co., Frankfort, KY"),
+      parseBottlerStatement("Bottled by Sazerac Company, Louisville, Kentucky")
+    );
+    expect(findings.filter((finding) => !finding.matched).map((finding) => finding.part)).toEqual([
+      "city",
+    ]);
+  });
+});
+
+describe("US address helpers", () => {
+  it("normalizes state codes and names", () => {
+    expect(normalizeUsState("KY")).toBe("Kentucky");
+    expect(normalizeUsState("new york")).toBe("New York");
+    expect(normalizeUsState("Ontario")).toBeNull();
+  });
+
+  it("recognizes spellings of the United States", () => {
+    expect(isUnitedStates("U.S.A.")).toBe(true);
+    expect(isUnitedStates("United States of America")).toBe(true);
+    expect(isUnitedStates("Mexico")).toBe(false);
+  });
+});
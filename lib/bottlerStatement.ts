@@ -0,0 +1,182 @@
+// Bottler/producer statement parsing ("Bottled by Sazerac Co., Frankfort, KY")
+// and part-by-part comparison with US state normalization.
+
+import { normalizeForSimilarity, similarityRatio } from "./textSimilarity";
+
+export type BottlerStatement = {
+  // Role phrase as printed, e.g. "Produced and Bottled by" or "Bottled for".
+  role: string | null;
+  company: string | null;
+  city: string | null;
+  // Full US state name when the address is in the US.
+  state: string | null;
+  // Country only when printed; a US state alone leaves this null.
+  country: string | null;
+};
+
+export type BottlerPart = "role" | "company" | "city" | "state" | "country";
+
+export type BottlerPartFinding = {
+  part: BottlerPart;
+  expected: string | null;
+  extracted: string | null;
+  matched: boolean;
+};
+
+const US_STATES: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California",
+  CO: "Colorado", CT: "Connecticut", DE: "Delaware", FL: "Florida", GA: "Georgia",
+  HI: "Hawaii", ID: "Idaho", IL: "Illinois", IN: "Indiana", IA: "Iowa",
+  KS: "Kansas", KY: "Kentucky", LA: "Louisiana", ME: "Maine", MD: "Maryland",
+  MA: "Massachusetts", MI: "Michigan", MN: "Minnesota", MS: "Mississippi",
+  MO: "Missouri", MT: "Montana", NE: "Nebraska", NV: "Nevada", NH: "New Hampshire",
+  NJ: "New Jersey", NM: "New Mexico", NY: "New York", NC: "North Carolina",
+  ND: "North Dakota", OH: "Ohio", OK: "Oklahoma", OR: "Oregon", PA: "Pennsylvania",
+  RI: "Rhode Island", SC: "South Carolina", SD: "South Dakota", TN: "Tennessee",
+  TX: "Texas", UT: "Utah", VT: "Vermont", VA: "Virginia", WA: "Washington",
+  WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming", DC: "District of Columbia",
+  PR: "Puerto Rico",
+};
+
+const ROLE_WORDS =
+  "distilled|bottled|produced|imported|blended|made|brewed|canned|kegged|vinted|cellared|packed|distributed|manufactured|aged|crafted|rectified";
+// "Bottled by" names who did the work; "Bottled for" the company it was done for.
+const ROLE_PATTERN = new RegExp(
+  `^\\s*((?:(?:${ROLE_WORDS})\\s*(?:,|and|&)?\\s*)+(?:by|for))\\b[:\\s]*`,
+  "i"
+);
+
+// Address parts that belong to the company name rather than the location.
+const COMPANY_SUFFIX_PATTERN = /^(inc|llc|l\.l\.c|ltd|co|corp|company|corporation|lp|plc)\.?$/i;
+const US_COUNTRY_PATTERN = /^(usa|u\s*s\s*a|us|u\s*s|united states(?: of america)?)$/i;
+const ZIP_PATTERN = /\s+\d{5}(?:-\d{4})?$/;
+
+// Company names at or above this similarity are the same company.
+const COMPANY_MATCH_RATIO = 0.85;
+
+/**
+ * Returns the full state name for a US state code or name, or null.
+ */
+export function normalizeUsState(text?: string | null): string | null {
+  if (!text) return null;
+  const cleaned = text.replace(ZIP_PATTERN, "").replace(/\./g, "").trim();
+  const byCode = US_STATES[cleaned.toUpperCase()];
+  if (byCode) return byCode;
+  const lower = cleaned.toLowerCase();
+  return Object.values(US_STATES).find((name) => name.toLowerCase() === lower) ?? null;
+}
+
+/**
+ * Returns true for the spellings of the United States used on labels.
+ */
+export function isUnitedStates(text?: string | null): boolean {
+  return Boolean(text && US_COUNTRY_PATTERN.test(text.replace(/\./g, " ").trim()));
+}
+
+/**
+ * Splits a bottler statement into role phrase, company, city and state or
+ * country. The address is read from the end: an optional country, then a US
+ * state, then the city; everything before it is the company.
+ */
+export function parseBottlerStatement(text?: string | null): BottlerStatement {
+  const statement: BottlerStatement = {
+    role: null,
+    company: null,
+    city: null,
+    state: null,
+    country: null,
+  };
+  if (!text?.trim()) return statement;
+
+  let remainder = text.replace(/\s+/g, " ").trim();
+  const roleMatch = remainder.match(ROLE_PATTERN);
+  if (roleMatch) {
+    statement.role = roleMatch[1].trim();
+    remainder = remainder.slice(roleMatch[0].length);
+  }
+
+  const parts = remainder
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  // Re-attach corporate suffixes ("Co., Inc.") to the part before them.
+  const merged: string[] = [];
+  parts.forEach((part) => {
+    if (merged.length > 0 && COMPANY_SUFFIX_PATTERN.test(part)) {
+      merged[merged.length - 1] += `, ${part}`;
+    } else {
+      merged.push(part);
+    }
+  });
+
+  if (merged.length > 1 && isUnitedStates(merged[merged.length - 1])) {
+    statement.country = "United States";
+    merged.pop();
+  }
+  const state = merged.length > 1 ? normalizeUsState(merged[merged.length - 1]) : null;
+  if (state) {
+    statement.state = state;
+    merged.pop();
+  } else if (!statement.country && merged.length > 2) {
+    statement.country = merged.pop() ?? null;
+  }
+  if (merged.length > 1) {
+    statement.city = merged.pop() ?? null;
+  }
+  statement.company = merged.length > 0 ? merged.join(", ") : null;
+  return statement;
+}
+
+/**
+ * Normalizes a company name for comparison, dropping corporate suffixes.
+ */
+function normalizeCompany(text: string): string {
+  return normalizeForSimilarity(text)
+    .split(" ")
+    .filter((word) => !COMPANY_SUFFIX_PATTERN.test(word))
+    .join(" ");
+}
+
+function partsMatch(part: BottlerPart, expected: string, extracted: string): boolean {
+  switch (part) {
+    case "role":
+    case "city":
+    case "state":
+    case "country":
+      return normalizeForSimilarity(expected) === normalizeForSimilarity(extracted);
+    case "company": {
+      const normalizedExpected = normalizeCompany(expected);
+      const normalizedExtracted = normalizeCompany(extracted);
+      return (
+        normalizedExtracted.includes(normalizedExpected) ||
+        similarityRatio(normalizedExtracted, normalizedExpected) >= COMPANY_MATCH_RATIO
+      );
+    }
+  }
+}
+
+/**
+ * Compares each part the expected statement provides with the label's.
+ * Parts missing from the expected statement are not compared.
+ */
+export function compareBottlerStatements(
+  expected: BottlerStatement,
+  extracted: BottlerStatement
+): BottlerPartFinding[] {
+  const parts: BottlerPart[] = ["role", "company", "city", "state", "country"];
+  return parts
+    .filter((part) => expected[part] !== null)
+    .map((part) => {
+      const expectedValue = expected[part];
+      const extractedValue = extracted[part];
+      return {
+        part,
+        expected: expectedValue,
+        extracted: extractedValue,
+        matched:
+          expectedValue !== null &&
+          extractedValue !== null &&
+          partsMatch(part, expectedValue, extractedValue),
+      };
+    });
+}
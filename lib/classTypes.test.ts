@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { compareClassTypes, inferProductType, resolveClassType } from "@/lib/classTypes";
+
+describe("resolveClassType", () => {
+  it("finds the longest wording in label text", () => {
+    expect(resolveClassType("Kentucky Straight Bourbon Whiskey")?.id).toBe("straight-bourbon");
+    expect(resolveClassType("Rosé")?.id).toBe("rose-wine");
+    expect(resolveClassType("Hard Seltzer")).toBeNull();
+  });
+});
+
+describe("compareClassTypes", () => {
+  const match = (expected: string, extracted: string) =>
+    compareClassTypes(expected, extracted).match;
+
+  it("accepts more specific label types", () => {
+    expect(match("Whiskey", "Straight Bourbon Whiskey")).toBe("specialization");
+    expect(match("Bourbon", "Bourbon Whisky")).toBe("exact");
+  });
+
+  it("separates broader, sibling and unrelated types", () => {
+    expect(match("Bourbon", "Whisky")).toBe("generalization");
+    expect(match("Bourbon", "Tennessee Whisky")).toBe("related");
+    expect(match("Vodka", "Gin")).toBe("wrong_category");
+  });
+
+  it("treats flavored spirits as their own class", () => {
+    expect(match("Whisky", "Cinnamon Whisky")).toBe("wrong_category");
+    expect(match("Flavored Vodka", "Flavored Rum")).toBe("related");
+  });
+});
+
+describe("inferProductType", () => {
+  it("keeps the product type of flavored spirits", () => {
+    expect(inferProductType("Honey Whiskey")).toBe("whiskey");
+    expect(inferProductType("Spiced Rum")).toBe("rum");
+    expect(inferProductType("India Pale Ale")).toBe("beer");
+  });
+});
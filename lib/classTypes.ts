@@ -0,0 +1,230 @@
+// Class/type taxonomy for spirits, wine and malt beverages. Each entry names
+// its parent so a label designation can be compared with the expected one as
+// an exact match, a more specific type, or a different category.
+
+import type { ProductType } from "./schemas";
+import { normalizeForSimilarity } from "./textSimilarity";
+
+export type ClassTypeEntry = {
+  id: string;
+  name: string;
+  parent: string | null;
+  productType: ProductType;
+  // Alternate wordings, matched after normalization.
+  synonyms: string[];
+};
+
+export type ClassTypeMatch =
+  // Same designation.
+  | "exact"
+  // Label is a more specific type of the expected one ("Bourbon" for "Whisky").
+  | "specialization"
+  // Label is a broader type than expected ("Whisky" for "Bourbon").
+  | "generalization"
+  // Same category but different types ("Bourbon" vs "Tennessee Whisky").
+  | "related"
+  | "wrong_category"
+  // Either side is not in the taxonomy.
+  | "unknown";
+
+export type ClassTypeComparison = {
+  match: ClassTypeMatch;
+  expected: ClassTypeEntry | null;
+  extracted: ClassTypeEntry | null;
+};
+
+const entry = (
+  id: string,
+  name: string,
+  parent: string | null,
+  productType: ProductType,
+  synonyms: string[] = []
+): ClassTypeEntry => ({ id, name, parent, productType, synonyms });
+
+export const CLASS_TYPE_TAXONOMY: ClassTypeEntry[] = [
+  // Whisky
+  entry("whisky", "Whisky", null, "whiskey"),
+  entry("bourbon", "Bourbon Whisky", "whisky", "whiskey", ["bourbon"]),
+  entry("straight-bourbon", "Straight Bourbon Whisky", "bourbon", "whiskey", ["straight bourbon"]),
+  entry("rye", "Rye Whisky", "whisky", "whiskey"),
+  entry("straight-rye", "Straight Rye Whisky", "rye", "whiskey", ["straight rye"]),
+  entry("tennessee", "Tennessee Whisky", "whisky", "whiskey"),
+  entry("corn", "Corn Whisky", "whisky", "whiskey"),
+  entry("malt-whisky", "Malt Whisky", "whisky", "whiskey", ["single malt whisky"]),
+  entry("scotch", "Scotch Whisky", "whisky", "whiskey", ["scotch", "blended scotch whisky"]),
+  entry("irish", "Irish Whisky", "whisky", "whiskey"),
+  entry("canadian", "Canadian Whisky", "whisky", "whiskey"),
+  entry("blended-whisky", "Blended Whisky", "whisky", "whiskey"),
+  // Vodka
+  entry("vodka", "Vodka", null, "other_spirits"),
+  // Gin
+  entry("gin", "Gin", null, "other_spirits"),
+  entry("distilled-gin", "Distilled Gin", "gin", "other_spirits"),
+  entry("london-dry-gin", "London Dry Gin", "distilled-gin", "other_spirits", ["dry gin"]),
+  // Rum
+  entry("rum", "Rum", null, "rum"),
+  // Agave spirits
+  entry("agave", "Agave Spirits", null, "other_spirits", ["agave spirit"]),
+  entry("tequila", "Tequila", "agave", "other_spirits"),
+  entry("mezcal", "Mezcal", "agave", "other_spirits"),
+  // Brandy
+  entry("brandy", "Brandy", null, "other_spirits", ["grape brandy"]),
+  entry("cognac", "Cognac", "brandy", "other_spirits"),
+  entry("armagnac", "Armagnac", "brandy", "other_spirits"),
+  entry("pisco", "Pisco", "brandy", "other_spirits"),
+  entry("fruit-brandy", "Fruit Brandy", "brandy", "other_spirits", ["apple brandy", "applejack"]),
+  // Flavored spirits are a class of their own (27 CFR 5.22), not a narrower
+  // type of the base spirit, so "Cinnamon Whisky" does not satisfy "Whisky".
+  entry("flavored-spirits", "Flavored Spirits", null, "other_spirits"),
+  entry("flavored-whisky", "Flavored Whisky", "flavored-spirits", "whiskey", [
+    "cinnamon whisky",
+    "honey whisky",
+    "whisky with natural flavors",
+  ]),
+  entry("flavored-vodka", "Flavored Vodka", "flavored-spirits", "other_spirits", [
+    "vodka with natural flavors",
+  ]),
+  entry("flavored-rum", "Flavored Rum", "flavored-spirits", "rum", ["spiced rum"]),
+  // Liqueurs
+  entry("liqueur", "Liqueur", null, "other_spirits", ["cordial"]),
+  // Wine
+  entry("wine", "Wine", null, "wine", ["grape wine"]),
+  entry("table-wine", "Table Wine", "wine", "wine"),
+  entry("red-wine", "Red Wine", "table-wine", "wine", ["red table wine"]),
+  entry("white-wine", "White Wine", "table-wine", "wine", ["white table wine"]),
+  entry("rose-wine", "Rose Wine", "table-wine", "wine", ["rose"]),
+  entry("sparkling-wine", "Sparkling Wine", "wine", "wine"),
+  entry("champagne", "Champagne", "sparkling-wine", "wine"),
+  entry("dessert-wine", "Dessert Wine", "wine", "wine", ["port", "sherry"]),
+  entry("fruit-wine", "Fruit Wine", "wine", "wine"),
+  entry("cider", "Cider", "fruit-wine", "wine", ["hard cider"]),
+  // Malt beverages
+  entry("malt-beverage", "Malt Beverage", null, "beer"),
+  entry("beer", "Beer", "malt-beverage", "beer"),
+  entry("ale", "Ale", "beer", "beer"),
+  entry("pale-ale", "Pale Ale", "ale", "beer", ["india pale ale", "ipa"]),
+  entry("stout", "Stout", "ale", "beer"),
+  entry("porter", "Porter", "ale", "beer"),
+  entry("barley-wine", "Barley Wine", "ale", "beer"),
+  entry("lager", "Lager", "beer", "beer", ["pilsner", "pilsener"]),
+  entry("wheat-beer", "Wheat Beer", "beer", "beer"),
+  entry("malt-liquor", "Malt Liquor", "malt-beverage", "beer"),
+  entry("flavored-malt-beverage", "Flavored Malt Beverage", "malt-beverage", "beer"),
+];
+
+const ENTRIES_BY_ID = new Map(CLASS_TYPE_TAXONOMY.map((item) => [item.id, item]));
+
+/**
+ * Normalizes a designation for lookup: lowercase without punctuation, with
+ * "whiskey"/"whisky", "flavoured"/"flavored" and "rosé"/"rose" unified.
+ */
+function normalizeClassType(text: string): string {
+  return normalizeForSimilarity(
+    text.normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+  )
+    .replace(/\bwhiskey\b/g, "whisky")
+    .replace(/\bflavoured\b/g, "flavored");
+}
+
+// Every wording with its entry, longest first so specific names win.
+const LOOKUP = CLASS_TYPE_TAXONOMY.flatMap((item) =>
+  [item.name, ...item.synonyms].map((wording) => ({
+    wording: normalizeClassType(wording),
+    item,
+  }))
+).sort((a, b) => b.wording.length - a.wording.length);
+
+/**
+ * Resolves label or expected class/type text to a taxonomy entry. An exact
+ * wording wins; otherwise the longest wording contained in the text as whole
+ * words ("Kentucky Straight Bourbon Whiskey" -> Straight Bourbon Whisky).
+ */
+export function resolveClassType(text?: string | null): ClassTypeEntry | null {
+  if (!text) return null;
+  const normalized = normalizeClassType(text);
+  if (!normalized) return null;
+
+  const exact = LOOKUP.find((candidate) => candidate.wording === normalized);
+  if (exact) return exact.item;
+  const padded = ` ${normalized} `;
+  const contained = LOOKUP.find((candidate) => padded.includes(` ${candidate.wording} `));
+  return contained?.item ?? null;
+}
+
+/**
+ * Lists an entry's ancestors from its parent up to the category root.
+ */
+function getAncestors(item: ClassTypeEntry): ClassTypeEntry[] {
+  const ancestors: ClassTypeEntry[] = [];
+  let parentId = item.parent;
+  while (parentId) {
+    const parent = ENTRIES_BY_ID.get(parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    parentId = parent.parent;
+  }
+  return ancestors;
+}
+
+/**
+ * Returns the top-level category of an entry (e.g. Whisky for Bourbon).
+ */
+export function getClassTypeCategory(item: ClassTypeEntry): ClassTypeEntry {
+  const ancestors = getAncestors(item);
+  return ancestors[ancestors.length - 1] ?? item;
+}
+
+/**
+ * Compares an expected designation with the one on the label.
+ */
+export function compareClassTypes(
+  expectedText?: string | null,
+  extractedText?: string | null
+): ClassTypeComparison {
+  const expected = resolveClassType(expectedText);
+  const extracted = resolveClassType(extractedText);
+  if (!expected || !extracted) return { match: "unknown", expected, extracted };
+
+  let match: ClassTypeMatch;
+  if (expected.id === extracted.id) {
+    match = "exact";
+  } else if (getAncestors(extracted).some((item) => item.id === expected.id)) {
+    match = "specialization";
+  } else if (getAncestors(expected).some((item) => item.id === extracted.id)) {
+    match = "generalization";
+  } else if (getClassTypeCategory(expected).id === getClassTypeCategory(extracted).id) {
+    match = "related";
+  } else {
+    match = "wrong_category";
+  }
+  return { match, expected, extracted };
+}
+
+/**
+ * Infers the product type from class/type text; null when not in the taxonomy.
+ */
+export function inferProductType(classType?: string | null): ProductType | null {
+  return resolveClassType(classType)?.productType ?? null;
+}
+
+/**
+ * Describes a comparison for result messages.
+ */
+export function describeClassTypeComparison(comparison: ClassTypeComparison): string {
+  const { expected, extracted } = comparison;
+  if (!expected || !extracted) return "Class/type is not in the taxonomy";
+  switch (comparison.match) {
+    case "exact":
+      return `Class/type matches (${extracted.name})`;
+    case "specialization":
+      return `${extracted.name} is an acceptable type of ${expected.name}`;
+    case "generalization":
+      return `Label states ${extracted.name}, less specific than expected ${expected.name}`;
+    case "related":
+      return `${extracted.name} and ${expected.name} are different types of ${getClassTypeCategory(expected).name}`;
+    case "wrong_category":
+      return `${extracted.name} is a different category from expected ${expected.name}`;
+    case "unknown":
+      return "Class/type is not in the taxonomy";
+  }
+}
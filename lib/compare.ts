@@ -1,11 +1,62 @@
 import {
   AccuracyDecision,
+  AdditiveDisclosure,
   ExtractedAlcoholLabel,
+  ExtractedGovernmentWarningField,
+  ExtractedSimpleField,
   ExpectedAlcoholLabel,
   GovernmentWarningField,
+  ImageQualityReport,
+  LabelVerification,
+  RuleSet,
   VerificationResult,
+  WarningDiffSegment,
 } from "./schemas";
 import { levenshteinDistance, normalizeForSimilarity } from "./textSimilarity";
+import {
+  countWarningChanges,
+  diffWarningText,
+  summarizeWarningDiff,
+} from "./warningDiff";
+import {
+  AbvProductClass,
+  checkAbvTolerance,
+  checkProofConsistency,
+  formatAbvToleranceMessage,
+  formatProofConsistencyMessage,
+} from "./alcoholContent";
+import {
+  parseAbv,
+  resolveProductType,
+} from "./extraction/heuristics";
+import { BUILT_IN_RULES_VERSION, evaluateLabelRules, getCurrentRuleSet } from "./rules";
+import {
+  applySeverities,
+  decideOverallStatus,
+  DEFAULT_DECISION_POLICY,
+  DecisionPolicy,
+} from "./decisionPolicy";
+import { formatYears, getMinimumAge, parseAgeYears } from "./ageStatement";
+import { ClassTypeMatch, compareClassTypes, describeClassTypeComparison } from "./classTypes";
+import {
+  BottlerPart,
+  compareBottlerStatements,
+  parseBottlerStatement,
+} from "./bottlerStatement";
+import { normalizeCountry } from "./countries";
+import {
+  checkWineDesignations,
+  compareWineDesignations,
+  WineField,
+  WineRuleFinding,
+} from "./wineRules";
+import {
+  findStandardOfFill,
+  formatMl,
+  getFillClass,
+  parseNetContents,
+  volumesMatch,
+} from "./netContents";
 
 function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, " ").trim();
@@ -26,12 +77,38 @@ const STANDARD_GOV_WARNINGS = [
   "GOVERNMENT WARNING: (1) According to the Surgeon General, women should not drink alcoholic beverages during pregnancy because of the risk of birth defects. (2) Consumption of alcoholic beverages impairs your ability to drive a car or operate machinery, and may cause health problems.",
 ].map(normalizeGovWarning);
 
+const ADDITIVE_LABELS: Record<keyof AdditiveDisclosure, string> = {
+  fdcYellowNo5: "FD&C Yellow No. 5",
+  cochinealExtract: "Cochineal extract",
+  carmine: "Carmine",
+  aspartame: "Aspartame",
+  sulfitesGe10ppm: "Sulfites (10 ppm or more)",
+};
+
 /**
- * Compare government warning - exact match required
+ * Diffs the extracted warning against the closest standard wording; null when
+ * there is no text or it matches a standard word for word.
+ */
+function diffAgainstStandard(extractedText: string): WarningDiffSegment[] | null {
+  if (!extractedText.trim()) return null;
+  const diffs = STANDARD_GOV_WARNINGS.map((standard) =>
+    diffWarningText(extractedText, standard)
+  );
+  const closest = diffs.reduce((best, current) =>
+    countWarningChanges(current) < countWarningChanges(best) ? current : best
+  );
+  return countWarningChanges(closest) > 0 ? closest : null;
+}
+
+/**
+ * Compare government warning - exact match required.
+ * A failure explains the word-level differences from the standard text, or
+ * uses the evaluator's reason when there is no diff to show.
  */
 function compareGovernmentWarning(
-  extracted: GovernmentWarningField | null,
-  expected: GovernmentWarningField
+  extracted: ExtractedGovernmentWarningField | null,
+  expected: GovernmentWarningField,
+  evaluation?: AccuracyDecision | null
 ): VerificationResult {
   const extractedText = extracted?.text ?? "";
   const normalizedExtracted = normalizeGovWarning(extractedText);
@@ -44,6 +121,7 @@ function compareGovernmentWarning(
 
   const expectedIsStandard = STANDARD_GOV_WARNINGS.includes(normalizedExpected);
   const extractedIsStandard = STANDARD_GOV_WARNINGS.includes(normalizedExtracted);
+  const warningDiff = diffAgainstStandard(extractedText);
 
   if (
     isSingleCharDifference(looseExtracted, looseExpected) ||
@@ -56,7 +134,13 @@ function compareGovernmentWarning(
     message = "Government warning matches standard wording";
   } else {
     status = "❌";
-    message = "Government warning does not match";
+    const reason =
+      evaluation?.fields.governmentWarning === 0
+        ? evaluation.reasons?.governmentWarning
+        : null;
+    message = warningDiff
+      ? `Government warning differs from standard: ${summarizeWarningDiff(warningDiff)}`
+      : reason ?? "Government warning does not match";
   }
 
   return {
@@ -65,19 +149,596 @@ function compareGovernmentWarning(
     expected: expected.text,
     status,
     message,
+    confidence: extracted?.confidence ?? null,
+    boundingBox: extracted?.boundingBox ?? null,
+    warningDiff,
+  };
+}
+
+// Wines under 7% ABV are not covered by the wine labeling tolerances.
+const WINE_MIN_TOLERANCE_ABV = 7;
+
+/**
+ * Maps the expected product type (or class/type text) to a tolerance class.
+ */
+function getAbvProductClass(expected: ExpectedAlcoholLabel): AbvProductClass {
+  switch (resolveProductType(expected)) {
+    case "beer":
+      return "malt";
+    case "wine":
+      return "wine";
+    default:
+      return "spirits";
+  }
+}
+
+/**
+ * Compares the label ABV with the expected ABV using the TTB tolerance for the
+ * product class, so 40.2% passes for an expected 40% spirit. Falls back to the
+ * evaluator's score when either value cannot be parsed or the wine is below
+ * the tolerance range.
+ */
+function compareAlcoholContent(
+  extracted: ExtractedSimpleField | null,
+  expected: ExpectedAlcoholLabel,
+  evaluation: AccuracyDecision | null | undefined
+): VerificationResult | null {
+  const extractedText = extracted?.text ?? "";
+  const expectedText = expected.alcoholContent?.text ?? "";
+  const productClass = getAbvProductClass(expected);
+  const check =
+    extractedText && expectedText
+      ? checkAbvTolerance(extractedText, expectedText, productClass)
+      : null;
+  if (!check || (productClass === "wine" && check.labelAbv < WINE_MIN_TOLERANCE_ABV)) {
+    return buildEvaluationResult(
+      "Alcohol Content",
+      expectedText,
+      extracted,
+      evaluation,
+      "alcoholContent",
+      "ABV matches",
+      "ABV does not match"
+    );
+  }
+
+  return {
+    field: "Alcohol Content",
+    extracted: extractedText,
+    expected: expectedText,
+    status: check.withinTolerance ? "✅" : "❌",
+    message: formatAbvToleranceMessage(check, productClass),
+    confidence: extracted?.confidence ?? null,
+    boundingBox: extracted?.boundingBox ?? null,
+  };
+}
+
+/**
+ * Builds one "Rule: Additive Disclosure" row per additive that was expected or
+ * found on the label. A missing required disclosure fails; an unexpected one
+ * warns. If the evaluator failed the additives field while every required
+ * disclosure was found, its reason is surfaced as a warning row.
+ */
+function compareAdditiveDisclosures(
+  extracted: AdditiveDisclosure | null,
+  expected: AdditiveDisclosure,
+  evaluation: AccuracyDecision | null | undefined
+): VerificationResult[] {
+  const rows: VerificationResult[] = [];
+  (Object.keys(ADDITIVE_LABELS) as Array<keyof AdditiveDisclosure>).forEach((key) => {
+    const isExpected = expected[key];
+    const isFound = Boolean(extracted?.[key]);
+    if (!isExpected && !isFound) return;
+
+    const label = ADDITIVE_LABELS[key];
+    let status: "✅" | "⚠️" | "❌";
+    let message: string;
+    if (isExpected && isFound) {
+      status = "✅";
+      message = `${label} disclosure found on label`;
+    } else if (isExpected) {
+      status = "❌";
+      message = `${label} disclosure required but not found on label`;
+    } else {
+      status = "⚠️";
+      message = `Label discloses ${label}, which was not expected`;
+    }
+
+    rows.push({
+      field: "Rule: Additive Disclosure",
+      extracted: isFound ? `${label}: disclosed` : `${label}: not found`,
+      expected: isExpected ? `${label}: required` : `${label}: not expected`,
+      status,
+      message,
+    });
+  });
+
+  const allRequiredFound = rows.every((row) => row.status !== "❌");
+  if (evaluation?.fields.additivesDisclosed === 0 && allRequiredFound) {
+    rows.push({
+      field: "Rule: Additive Disclosure",
+      extracted: "",
+      expected: "",
+      status: "⚠️",
+      message:
+        evaluation.reasons?.additivesDisclosed ??
+        "Evaluator did not accept the additive disclosures",
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Flags a proof statement that is not twice the label's ABV. Uses only label
+ * text, so it runs without an expected ABV.
+ */
+function compareProofConsistency(extracted: ExtractedAlcoholLabel): VerificationResult | null {
+  const proofField = extracted.proofStatement ?? null;
+  const check = checkProofConsistency(extracted.alcoholContent?.text, proofField?.text);
+  if (!check) return null;
+
+  return {
+    field: "Rule: Proof Consistency",
+    extracted: proofField?.text ?? extracted.alcoholContent?.text ?? "",
+    expected: `${check.expectedProof} proof`,
+    status: check.consistent ? "✅" : "❌",
+    message: formatProofConsistencyMessage(check),
+    confidence: proofField?.confidence ?? null,
+    boundingBox: proofField?.boundingBox ?? null,
+  };
+}
+
+const CLASS_TYPE_STATUS: Record<Exclude<ClassTypeMatch, "unknown">, "✅" | "⚠️" | "❌"> = {
+  exact: "✅",
+  specialization: "✅",
+  generalization: "⚠️",
+  related: "⚠️",
+  wrong_category: "❌",
+};
+
+/**
+ * Compares class/type through the taxonomy: exact matches and more specific
+ * label types pass, broader or sibling types warn, other categories fail.
+ * Falls back to the evaluator's score when either side is not in the taxonomy.
+ */
+function compareClassType(
+  extracted: ExtractedSimpleField | null,
+  expected: ExpectedAlcoholLabel,
+  evaluation: AccuracyDecision | null | undefined
+): VerificationResult | null {
+  const expectedText = expected.classType?.text ?? "";
+  const extractedText = extracted?.text ?? "";
+  const comparison = compareClassTypes(expectedText, extractedText);
+  if (!expectedText || comparison.match === "unknown") {
+    return buildEvaluationResult(
+      "Class/Type",
+      expectedText,
+      extracted,
+      evaluation,
+      "classType",
+      "Class/Type matches",
+      "Class/Type does not match"
+    );
+  }
+
+  return {
+    field: "Class/Type",
+    extracted: extractedText,
+    expected: expectedText,
+    status: CLASS_TYPE_STATUS[comparison.match],
+    message: describeClassTypeComparison(comparison),
+    confidence: extracted?.confidence ?? null,
+    boundingBox: extracted?.boundingBox ?? null,
+  };
+}
+
+const BOTTLER_PART_LABELS: Record<BottlerPart, string> = {
+  role: "Role Phrase",
+  company: "Company",
+  city: "City",
+  state: "State",
+  country: "Country",
+};
+
+/**
+ * Splits the bottler statements into role phrase, company, city and
+ * state/country and reports each part as its own row. A label without a role
+ * phrase ("Bottled by") always fails; a different role phrase only warns.
+ */
+function compareBottlerParts(
+  extracted: ExtractedSimpleField | null,
+  expected: ExpectedAlcoholLabel
+): VerificationResult[] {
+  const expectedText = expected.bottlerProducer?.text ?? "";
+  if (!expectedText) return [];
+
+  const expectedStatement = parseBottlerStatement(expectedText);
+  const extractedStatement = parseBottlerStatement(extracted?.text);
+  const findings = compareBottlerStatements(expectedStatement, extractedStatement);
+  const rows: VerificationResult[] = [];
+  const addRow = (
+    part: BottlerPart,
+    status: VerificationResult["status"],
+    message: string
+  ) => {
+    rows.push({
+      field: `Bottler/Producer: ${BOTTLER_PART_LABELS[part]}`,
+      extracted: extractedStatement[part] ?? "",
+      expected: expectedStatement[part] ?? "",
+      status,
+      message,
+      confidence: extracted?.confidence ?? null,
+      boundingBox: extracted?.boundingBox ?? null,
+    });
+  };
+
+  if (!extractedStatement.role) {
+    addRow("role", "❌", 'Role phrase (e.g. "Bottled by") missing from label');
+  } else if (expectedStatement.role && !findings.find((f) => f.part === "role")?.matched) {
+    addRow(
+      "role",
+      "⚠️",
+      `Label says "${extractedStatement.role}" vs "${expectedStatement.role}" expected`
+    );
+  } else {
+    addRow("role", "✅", `Role phrase "${extractedStatement.role}" found`);
+  }
+
+  findings
+    .filter((finding) => finding.part !== "role")
+    .forEach((finding) => {
+      const label = BOTTLER_PART_LABELS[finding.part];
+      if (finding.matched) {
+        addRow(finding.part, "✅", `${label} matches (${finding.extracted})`);
+      } else if (!finding.extracted) {
+        addRow(finding.part, "❌", `${label} not found on label; expected ${finding.expected}`);
+      } else {
+        addRow(
+          finding.part,
+          "❌",
+          `${label} "${finding.extracted}" on label vs "${finding.expected}" expected`
+        );
+      }
+    });
+
+  return rows;
+}
+
+/**
+ * Requires an imported label to state a country of origin other than the
+ * United States, matching the expected one when given. The importer statement
+ * checks live in the core rule pack. Skipped for domestic products.
+ */
+function compareImportCountry(
+  extracted: ExtractedAlcoholLabel,
+  expected: ExpectedAlcoholLabel
+): VerificationResult | null {
+  if (!expected.isImported) return null;
+
+  const countryText = extracted.countryOfOrigin?.text ?? "";
+  const labelCountry = normalizeCountry(countryText);
+  const expectedCountry = normalizeCountry(expected.countryOfOrigin?.text);
+  let countryStatus: VerificationResult["status"];
+  let countryMessage: string;
+  if (!countryText) {
+    countryStatus = "❌";
+    countryMessage = "Country of origin statement missing from imported label";
+  } else if (!labelCountry) {
+    countryStatus = "⚠️";
+    countryMessage = `"${countryText}" is not a recognized country`;
+  } else if (labelCountry === "United States") {
+    countryStatus = "❌";
+    countryMessage = "Imported label names the United States as the country of origin";
+  } else if (expectedCountry && labelCountry !== expectedCountry) {
+    countryStatus = "❌";
+    countryMessage = `Product of ${labelCountry} on label vs ${expectedCountry} expected`;
+  } else {
+    countryStatus = "✅";
+    countryMessage = `Country of origin stated (${labelCountry})`;
+  }
+  return {
+    field: "Rule: Import Country of Origin",
+    extracted: countryText,
+    expected: expectedCountry ?? expected.countryOfOrigin?.text ?? "Country of origin statement",
+    status: countryStatus,
+    message: countryMessage,
+    confidence: extracted.countryOfOrigin?.confidence ?? null,
+    boundingBox: extracted.countryOfOrigin?.boundingBox ?? null,
+  };
+}
+
+const WINE_FIELD_LABELS: Record<WineField, string> = {
+  appellation: "Appellation",
+  vintage: "Vintage",
+  varietal: "Varietal",
+};
+
+const WINE_RULE_STATUS: Record<WineRuleFinding["level"], VerificationResult["status"]> = {
+  pass: "✅",
+  warn: "⚠️",
+  fail: "❌",
+};
+
+/**
+ * Wine rule set: compares appellation, vintage and varietal with the expected
+ * values when given, then checks that the label's designations are consistent
+ * with each other. Runs for wine, or when any wine designation is expected.
+ */
+function compareWineRules(
+  extracted: ExtractedAlcoholLabel,
+  expected: ExpectedAlcoholLabel
+): VerificationResult[] {
+  const expectedDesignations = {
+    appellation: expected.appellation?.text || null,
+    vintage: expected.vintage?.text || null,
+    varietal: expected.varietal?.text || null,
+  };
+  const hasExpected = Object.values(expectedDesignations).some(Boolean);
+  if (resolveProductType(expected) !== "wine" && !hasExpected) return [];
+
+  const label = {
+    appellation: extracted.appellation?.text || null,
+    vintage: extracted.vintage?.text || null,
+    varietal: extracted.varietal?.text || null,
+    classType: extracted.classType?.text || null,
+  };
+  const toRow = (field: string, finding: WineRuleFinding, expectedText: string) => {
+    const source = extracted[finding.field];
+    return {
+      field,
+      extracted: label[finding.field] ?? "",
+      expected: expectedText,
+      status: WINE_RULE_STATUS[finding.level],
+      message: finding.message,
+      confidence: source?.confidence ?? null,
+      boundingBox: source?.boundingBox ?? null,
+    };
+  };
+
+  return [
+    ...compareWineDesignations(expectedDesignations, label).map((finding) =>
+      toRow(
+        WINE_FIELD_LABELS[finding.field],
+        finding,
+        expectedDesignations[finding.field] ?? ""
+      )
+    ),
+    ...checkWineDesignations(label).map((finding) =>
+      toRow(`Rule: Wine ${WINE_FIELD_LABELS[finding.field]}`, finding, "Consistent wine designations")
+    ),
+  ];
+}
+
+/**
+ * Compares net contents numerically after converting both sides to mL, so
+ * "750 mL", "75 cL" and "25.4 FL OZ" agree. Falls back to the evaluator's
+ * score when either side cannot be parsed.
+ */
+function compareNetContents(
+  extracted: ExtractedSimpleField | null,
+  expected: ExpectedAlcoholLabel,
+  evaluation: AccuracyDecision | null | undefined
+): VerificationResult | null {
+  const extractedText = extracted?.text ?? "";
+  const expectedText = expected.netContents?.text ?? "";
+  const extractedMl = parseNetContents(extractedText);
+  const expectedMl = parseNetContents(expectedText);
+  if (!expectedText || extractedMl === null || expectedMl === null) {
+    return buildEvaluationResult(
+      "Net Contents",
+      expectedText,
+      extracted,
+      evaluation,
+      "netContents",
+      "Net contents match",
+      "Net contents do not match"
+    );
+  }
+
+  const matched = volumesMatch(extractedMl, expectedMl);
+  return {
+    field: "Net Contents",
+    extracted: extractedText,
+    expected: expectedText,
+    status: matched ? "✅" : "❌",
+    message: matched
+      ? `Net contents ${formatMl(extractedMl)} match expected ${formatMl(expectedMl)}`
+      : `Net contents ${formatMl(extractedMl)} on label vs ${formatMl(expectedMl)} expected`,
+    confidence: extracted?.confidence ?? null,
+    boundingBox: extracted?.boundingBox ?? null,
+  };
+}
+
+/**
+ * Flags a label size that is not an authorized standard of fill for spirits
+ * or wine. Other product types have no standards and are skipped.
+ */
+function compareStandardOfFill(
+  extracted: ExtractedSimpleField | null,
+  expected: ExpectedAlcoholLabel
+): VerificationResult | null {
+  const fillClass = getFillClass(resolveProductType(expected));
+  const extractedText = extracted?.text ?? "";
+  const extractedMl = parseNetContents(extractedText);
+  if (!fillClass || extractedMl === null) return null;
+
+  const standard = findStandardOfFill(extractedMl, fillClass);
+  return {
+    field: "Rule: Standard of Fill",
+    extracted: extractedText,
+    expected: `Authorized ${fillClass} size`,
+    status: standard !== null ? "✅" : "❌",
+    message:
+      standard !== null
+        ? `${formatMl(standard)} is an authorized standard of fill for ${fillClass}`
+        : `${formatMl(extractedMl)} is not an authorized standard of fill for ${fillClass}`,
+    confidence: extracted?.confidence ?? null,
+    boundingBox: extracted?.boundingBox ?? null,
+  };
+}
+
+/**
+ * Checks 27 CFR 16.22 typography: the "GOVERNMENT WARNING" header must be bold
+ * capitals and the rest of the statement must not be bold. Header casing is
+ * read from the transcription when it contains the header, since the text is
+ * transcribed as printed; otherwise the extractor's flag is used.
+ */
+function compareGovernmentWarningTypography(
+  extracted: ExtractedGovernmentWarningField | null
+): VerificationResult | null {
+  if (!extracted) return null;
+
+  const headerMatch = extracted.text.match(/government\s+warning/i);
+  const headerIsAllCaps = headerMatch
+    ? headerMatch[0] === headerMatch[0].toUpperCase()
+    : extracted.isAllCaps;
+
+  const failures: string[] = [];
+  if (!headerIsAllCaps) failures.push("header is not in capital letters");
+  if (!extracted.isBold) failures.push("header is not bold");
+  const bodyIsBold = extracted.isBodyBold === true;
+
+  let status: "✅" | "⚠️" | "❌";
+  let message: string;
+  if (failures.length > 0) {
+    status = "❌";
+    message = `Government warning ${failures.join(" and ")}`;
+    if (bodyIsBold) message += "; body text also appears bold";
+  } else if (bodyIsBold) {
+    status = "⚠️";
+    message = "Government warning body text appears bold; only the header may be bold";
+  } else {
+    status = "✅";
+    message = "Government warning header is bold capitals and body is not bold";
+  }
+
+  const describe = (bold: boolean | null | undefined) =>
+    bold === null || bold === undefined ? "unknown" : bold ? "bold" : "not bold";
+  return {
+    field: "Government Warning Typography",
+    extracted:
+      `Header ${headerIsAllCaps ? "all caps" : "not all caps"}, ` +
+      `${describe(extracted.isBold)}; body ${describe(extracted.isBodyBold)}`,
+    expected: "Header all caps, bold; body not bold",
+    status,
+    message,
+    confidence: extracted.confidence ?? null,
+    boundingBox: extracted.boundingBox ?? null,
+  };
+}
+
+/**
+ * Compares the label's age statement with the expected age. An age statement
+ * that cannot be parsed warns rather than failing. Skipped when no age is
+ * expected.
+ */
+function compareAgeStatement(
+  extracted: ExtractedAlcoholLabel,
+  expected: ExpectedAlcoholLabel
+): VerificationResult | null {
+  if (expected.ageYears === null) return null;
+
+  const statement = extracted.ageStatement ?? null;
+  const statedYears = parseAgeYears(statement?.text);
+  let status: "✅" | "⚠️" | "❌";
+  let message: string;
+  if (statedYears === null && statement?.text.trim()) {
+    status = "⚠️";
+    message = `Could not read an age from "${statement.text}"; expected ${formatYears(expected.ageYears)}`;
+  } else if (statedYears === null) {
+    status = "❌";
+    message = `Age statement not found; expected ${formatYears(expected.ageYears)}`;
+  } else if (statedYears === expected.ageYears) {
+    status = "✅";
+    message = `Label states ${formatYears(statedYears)}, matching expected age`;
+  } else {
+    status = "❌";
+    message = `Label states ${formatYears(statedYears)} vs ${formatYears(expected.ageYears)} expected`;
+  }
+
+  return {
+    field: "Age Statement",
+    extracted: statement?.text ?? "",
+    expected: formatYears(expected.ageYears),
+    status,
+    message,
+    confidence: statement?.confidence ?? null,
+    boundingBox: statement?.boundingBox ?? null,
+  };
+}
+
+/**
+ * Flags an age below the minimum implied by the class/type (e.g. "Straight"
+ * requires at least 2 years). Uses the label's age statement, falling back to
+ * the expected age, and the label's class/type, falling back to the expected one.
+ */
+function compareMinimumAge(
+  extracted: ExtractedAlcoholLabel,
+  expected: ExpectedAlcoholLabel
+): VerificationResult | null {
+  const classType = extracted.classType?.text ?? expected.classType?.text;
+  const rule = getMinimumAge(classType);
+  const statedYears = parseAgeYears(extracted.ageStatement?.text);
+  const years = statedYears ?? expected.ageYears;
+  if (!rule || years === null) return null;
+
+  const source = statedYears !== null ? "Age statement" : "Expected age";
+  const meetsMinimum = years >= rule.minYears;
+  return {
+    field: "Rule: Minimum Age",
+    extracted: `${classType}; ${formatYears(years)}`,
+    expected: `At least ${formatYears(rule.minYears)}`,
+    status: meetsMinimum ? "✅" : "❌",
+    message: meetsMinimum
+      ? `${source} of ${formatYears(years)} meets the ${formatYears(rule.minYears)} minimum for "${rule.designation}"`
+      : `${source} of ${formatYears(years)} is below the ${formatYears(rule.minYears)} minimum for "${rule.designation}"`,
+    confidence: extracted.ageStatement?.confidence ?? null,
+    boundingBox: extracted.ageStatement?.boundingBox ?? null,
+  };
+}
+
+/**
+ * Summarizes the image quality pre-check as an informational row: a pass
+ * when no image had issues, otherwise a warning listing them. Rejected images
+ * never reach verification, so only warnings appear here.
+ */
+function compareImageQuality(
+  reports: ImageQualityReport[] | null
+): VerificationResult | null {
+  if (!reports || reports.length === 0) return null;
+
+  const issues = reports.flatMap((report) =>
+    report.issues.map((issue) =>
+      reports.length > 1 ? `${report.name}: ${issue.message}` : issue.message
+    )
+  );
+  return {
+    field: "Image Quality",
+    extracted: reports
+      .map((report) => `${report.name} (${report.width}x${report.height})`)
+      .join(", "),
+    expected: "Sharp, evenly lit, legible image",
+    status: issues.length === 0 ? "✅" : "⚠️",
+    message: issues.length === 0 ? "No image quality issues found" : issues.join("; "),
+    confidence: null,
+    boundingBox: null,
   };
 }
 
 function buildEvaluationResult(
   field: string,
   expectedText: string,
-  extractedText: string,
+  extracted: ExtractedSimpleField | null,
   evaluation: AccuracyDecision | null | undefined,
   key: keyof AccuracyDecision["fields"],
   passMessage: string,
   failMessage: string
 ): VerificationResult | null {
   if (!expectedText) return null;
+  const extractedText = extracted?.text ?? "";
+  const confidence = extracted?.confidence ?? null;
+  const boundingBox = extracted?.boundingBox ?? null;
   if (!evaluation) {
     return {
       field,
@@ -85,26 +746,38 @@ function buildEvaluationResult(
       expected: expectedText,
       status: "⚠️",
       message: "AI evaluation missing",
+      confidence,
+      boundingBox,
     };
   }
 
   const passed = evaluation.fields[key] === 1;
+  // Prefer the evaluator's explanation over the generic message.
+  const reason = evaluation.reasons?.[key];
   return {
     field,
     extracted: extractedText,
     expected: expectedText,
     status: passed ? "✅" : "❌",
-    message: passed ? passMessage : failMessage,
+    message: reason ?? (passed ? passMessage : failMessage),
+    confidence,
+    boundingBox,
   };
 }
 
 /**
- * Compare all fields of alcohol labels
+ * Compare all fields of alcohol labels. Rule pack checks run under the given
+ * rule set, the current one by default; the policy sets each result's
+ * severity and weight. Image quality reports, when given, add an
+ * informational row.
  */
 export function compareLabels(
   extracted: ExtractedAlcoholLabel,
   expected: ExpectedAlcoholLabel,
-  evaluation?: AccuracyDecision | null
+  evaluation?: AccuracyDecision | null,
+  ruleSet: RuleSet = getCurrentRuleSet(),
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY,
+  imageQuality: ImageQualityReport[] | null = null
 ): VerificationResult[] {
   const results: VerificationResult[] = [];
   const addResult = (result: VerificationResult | null) => {
@@ -115,105 +788,124 @@ export function compareLabels(
     buildEvaluationResult(
       "Brand",
       expected.brandName?.text ?? "",
-      extracted.brandName?.text ?? "",
+      extracted.brandName,
       evaluation,
       "brandName",
       "Brand matches",
       "Brand does not match"
     )
   );
-  addResult(
-    buildEvaluationResult(
-      "Class/Type",
-      expected.classType?.text ?? "",
-      extracted.classType?.text ?? "",
-      evaluation,
-      "classType",
-      "Class/Type matches",
-      "Class/Type does not match"
-    )
-  );
-  addResult(
-    buildEvaluationResult(
-      "Net Contents",
-      expected.netContents?.text ?? "",
-      extracted.netContents?.text ?? "",
-      evaluation,
-      "netContents",
-      "Net contents match",
-      "Net contents do not match"
-    )
-  );
-  addResult(
-    buildEvaluationResult(
-      "Bottler/Producer",
-      expected.bottlerProducer?.text ?? "",
-      extracted.bottlerProducer?.text ?? "",
-      evaluation,
-      "bottlerProducer",
-      "Bottler/Producer matches",
-      "Bottler/Producer does not match"
-    )
-  );
+  addResult(compareClassType(extracted.classType, expected, evaluation));
+  addResult(compareNetContents(extracted.netContents, expected, evaluation));
+  addResult(compareStandardOfFill(extracted.netContents, expected));
+  // The statement is checked part by part, so a wrong city is one finding.
+  results.push(...compareBottlerParts(extracted.bottlerProducer, expected));
 
   if (expected.governmentWarning) {
     results.push(
       compareGovernmentWarning(
         extracted.governmentWarning,
-        expected.governmentWarning
+        expected.governmentWarning,
+        evaluation
       )
     );
   }
+  addResult(compareGovernmentWarningTypography(extracted.governmentWarning));
 
-  addResult(
-    buildEvaluationResult(
-      "Alcohol Content",
-      expected.alcoholContent?.text ?? "",
-      extracted.alcoholContent?.text ?? "",
-      evaluation,
-      "alcoholContent",
-      "ABV matches",
-      "ABV does not match"
-    )
-  );
+  addResult(compareAlcoholContent(extracted.alcoholContent, expected, evaluation));
+  addResult(compareProofConsistency(extracted));
+  addResult(compareAgeStatement(extracted, expected));
+  addResult(compareMinimumAge(extracted, expected));
   addResult(
     buildEvaluationResult(
       "Country of Origin",
       expected.countryOfOrigin?.text ?? "",
-      extracted.countryOfOrigin?.text ?? "",
+      extracted.countryOfOrigin,
       evaluation,
       "countryOfOrigin",
       "Country of origin matches",
       "Country of origin does not match"
     )
   );
+  addResult(compareImportCountry(extracted, expected));
+  results.push(...compareWineRules(extracted, expected));
+  results.push(...evaluateLabelRules(extracted, expected, ruleSet));
 
-  const failures = results.filter((result) => result.status === "❌");
-  if (
-    failures.length === 1 &&
-    failures[0].field === "Government Warning"
-  ) {
-    const warningResult = results.find(
-      (result) => result.field === "Government Warning"
-    );
-    if (warningResult) {
-      warningResult.status = "⚠️";
-    }
-  }
+  results.push(
+    ...compareAdditiveDisclosures(
+      extracted.additivesDisclosed,
+      expected.additivesDetected,
+      evaluation
+    )
+  );
+  addResult(compareImageQuality(imageQuality));
 
-  return results;
+  return applySeverities(results, policy);
 }
 
 /**
- * Calculate overall status from verification results
+ * Calculate overall status from verification results under a decision policy
  */
 export function calculateOverallStatus(
-  results: VerificationResult[]
+  results: VerificationResult[],
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY
 ): "✅" | "⚠️" | "❌" {
-  const hasError = results.some((r) => r.status === "❌");
-  const hasWarning = results.some((r) => r.status === "⚠️");
+  return decideOverallStatus(results, policy);
+}
+
+export type ReverifyOutcome = {
+  verification: LabelVerification;
+  // False when the verification was returned unchanged.
+  recomputed: boolean;
+  // Why it was not recomputed, for display.
+  notice: string | null;
+};
+
+/**
+ * Recomputes a verification's results from its stored label data. By default
+ * the rule set and decision policy it was recorded under are reused, so the
+ * original result is reproduced; with useCurrentRules the current rule set
+ * and policy apply. When the built-in checks changed since the recording, the
+ * original results cannot be recomputed; the verification is returned
+ * unchanged with a notice saying so.
+ */
+export function reverifyLabel(
+  verification: LabelVerification,
+  options: { useCurrentRules?: boolean } = {}
+): ReverifyOutcome {
+  const recorded = verification.ruleSet;
+  if (!options.useCurrentRules && recorded && recorded.builtIn !== BUILT_IN_RULES_VERSION) {
+    return {
+      verification,
+      recomputed: false,
+      notice:
+        `Recorded under built-in v${recorded.builtIn} (now v${BUILT_IN_RULES_VERSION}); ` +
+        "re-run with current rules to recompute",
+    };
+  }
 
-  if (hasError) return "❌";
-  if (hasWarning) return "⚠️";
-  return "✅";
+  const ruleSet = options.useCurrentRules || !recorded ? getCurrentRuleSet() : recorded;
+  const policy =
+    options.useCurrentRules || !verification.decisionPolicy
+      ? DEFAULT_DECISION_POLICY
+      : verification.decisionPolicy;
+  const results = compareLabels(
+    verification.extractedData,
+    verification.expectedData,
+    verification.evaluation,
+    ruleSet,
+    policy,
+    verification.imageQuality ?? null
+  );
+  return {
+    verification: {
+      ...verification,
+      results,
+      overallStatus: calculateOverallStatus(results, policy),
+      ruleSet,
+      decisionPolicy: policy,
+    },
+    recomputed: true,
+    notice: null,
+  };
 }
@@ -0,0 +1,41 @@
+// Shared helpers for per-field extraction confidence (0..1).
+
+// Fields below this confidence are flagged for reviewers.
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Weight of cross-pass agreement vs. the model's self-reported certainty.
+const AGREEMENT_WEIGHT = 0.6;
+
+export function clampConfidence(value: number): number {
+  if (Number.isNaN(value)) return 0;
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Blends the share of passes that agreed on a value with the average
+ * self-reported certainty of those passes. Agreement alone is used when the
+ * model did not report certainty.
+ */
+export function combineConfidence(
+  agreementRatio: number,
+  selfReported: number | null
+): number {
+  const agreement = clampConfidence(agreementRatio);
+  const combined =
+    selfReported === null
+      ? agreement
+      : agreement * AGREEMENT_WEIGHT +
+        clampConfidence(selfReported) * (1 - AGREEMENT_WEIGHT);
+  return Math.round(combined * 100) / 100;
+}
+
+export function isLowConfidence(confidence?: number | null): boolean {
+  return (
+    typeof confidence === "number" && confidence < LOW_CONFIDENCE_THRESHOLD
+  );
+}
+
+export function formatConfidence(confidence?: number | null): string {
+  if (typeof confidence !== "number") return "";
+  return `${Math.round(clampConfidence(confidence) * 100)}%`;
+}
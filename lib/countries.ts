@@ -0,0 +1,109 @@
+// Country of origin normalization: "Product of France", "Made in Mexico",
+// "FR" and "FRA" all resolve to the same country name.
+
+import { normalizeForSimilarity } from "./textSimilarity";
+
+type CountryEntry = {
+  name: string;
+  // ISO 3166-1 alpha-2 and alpha-3 codes.
+  codes: [string, string];
+  // Other names and adjectives seen on labels.
+  aliases: string[];
+};
+
+const country = (
+  name: string,
+  alpha2: string,
+  alpha3: string,
+  aliases: string[] = []
+): CountryEntry => ({ name, codes: [alpha2, alpha3], aliases });
+
+const COUNTRIES: CountryEntry[] = [
+  country("United States", "US", "USA", ["united states of america", "u s a", "america"]),
+  country("Argentina", "AR", "ARG"),
+  country("Australia", "AU", "AUS"),
+  country("Austria", "AT", "AUT"),
+  country("Barbados", "BB", "BRB"),
+  country("Belgium", "BE", "BEL"),
+  country("Brazil", "BR", "BRA"),
+  country("Canada", "CA", "CAN"),
+  country("Chile", "CL", "CHL"),
+  country("China", "CN", "CHN", ["people s republic of china", "prc"]),
+  country("Colombia", "CO", "COL"),
+  country("Cuba", "CU", "CUB"),
+  country("Czech Republic", "CZ", "CZE", ["czechia"]),
+  country("Denmark", "DK", "DNK"),
+  country("Dominican Republic", "DO", "DOM"),
+  country("Finland", "FI", "FIN"),
+  country("France", "FR", "FRA"),
+  country("Germany", "DE", "DEU", ["deutschland"]),
+  country("Greece", "GR", "GRC"),
+  country("Guatemala", "GT", "GTM"),
+  country("Guyana", "GY", "GUY"),
+  country("Hungary", "HU", "HUN"),
+  country("India", "IN", "IND"),
+  country("Ireland", "IE", "IRL", ["republic of ireland", "eire"]),
+  country("Israel", "IL", "ISR"),
+  country("Italy", "IT", "ITA", ["italia"]),
+  country("Jamaica", "JM", "JAM"),
+  country("Japan", "JP", "JPN"),
+  country("Mexico", "MX", "MEX"),
+  country("Netherlands", "NL", "NLD", ["holland"]),
+  country("New Zealand", "NZ", "NZL"),
+  country("Nicaragua", "NI", "NIC"),
+  country("Norway", "NO", "NOR"),
+  country("Peru", "PE", "PER"),
+  country("Philippines", "PH", "PHL"),
+  country("Poland", "PL", "POL", ["polska"]),
+  country("Portugal", "PT", "PRT"),
+  country("Russia", "RU", "RUS", ["russian federation"]),
+  country("South Africa", "ZA", "ZAF"),
+  country("South Korea", "KR", "KOR", ["korea", "republic of korea"]),
+  country("Spain", "ES", "ESP", ["espana"]),
+  country("Sweden", "SE", "SWE"),
+  country("Switzerland", "CH", "CHE"),
+  country("Taiwan", "TW", "TWN"),
+  country("Thailand", "TH", "THA"),
+  country("Trinidad and Tobago", "TT", "TTO", ["trinidad"]),
+  country("Ukraine", "UA", "UKR"),
+  country("United Kingdom", "GB", "GBR", [
+    "uk",
+    "u k",
+    "great britain",
+    "britain",
+    "england",
+    "scotland",
+    "wales",
+    "northern ireland",
+  ]),
+  country("Venezuela", "VE", "VEN"),
+];
+
+// Wording around the country name ("Product of", "Made in", "Imported from"),
+// including common Spanish, French and Italian forms.
+const ORIGIN_PHRASE_PATTERN =
+  /^(?:country of origin|product of|produce of|produced in|made in|distilled in|brewed in|bottled in|imported from|origin|hecho en|producto de|produit de|prodotto in)\b[:\s]*/i;
+
+/**
+ * Lowercases and strips accents and punctuation for lookup.
+ */
+function normalizeCountryText(text: string): string {
+  return normalizeForSimilarity(text.normalize("NFD").replace(/[\u0300-\u036f]/g, ""));
+}
+
+const COUNTRY_LOOKUP = new Map<string, string>();
+COUNTRIES.forEach((entry) => {
+  [entry.name, ...entry.codes, ...entry.aliases].forEach((wording) => {
+    COUNTRY_LOOKUP.set(normalizeCountryText(wording), entry.name);
+  });
+});
+
+/**
+ * Resolves a country statement to a country name, e.g. "Product of France",
+ * "MADE IN MÉXICO" or "FRA". Null when no known country is named.
+ */
+export function normalizeCountry(text?: string | null): string | null {
+  if (!text) return null;
+  const stripped = text.trim().replace(ORIGIN_PHRASE_PATTERN, "").replace(/^the\s+/i, "");
+  return COUNTRY_LOOKUP.get(normalizeCountryText(stripped)) ?? null;
+}
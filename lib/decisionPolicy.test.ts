@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DECISION_POLICY,
+  applySeverities,
+  decideOverallStatus,
+  formatDecisionPolicy,
+  getResultSeverity,
+  loadDecisionPolicy,
+} from "@/lib/decisionPolicy";
+import type { VerificationResult } from "@/lib/schemas";
+
+const result = (field: string, status: VerificationResult["status"]): VerificationResult => ({
+  field,
+  extracted: "",
+  expected: "",
+  status,
+  message: "",
+  confidence: null,
+  boundingBox: null,
+});
+
+describe("default decision policy", () => {
+  it("loads from JSON", () => {
+    expect(formatDecisionPolicy(DEFAULT_DECISION_POLICY)).toBe("default v1");
+  });
+
+  it("assigns severities by field pattern", () => {
+    expect(getResultSeverity("Bottler/Producer: City")).toBe("major");
+    expect(getResultSeverity("Image Quality")).toBe("info");
+    expect(getResultSeverity("Brand")).toBe("critical");
+  });
+
+  it("fails on any critical failure", () => {
+    const results = applySeverities([result("Brand", "❌")]);
+    expect(decideOverallStatus(results)).toBe("❌");
+  });
+
+  it("warns on a single major failure and fails on two", () => {
+    expect(decideOverallStatus(applySeverities([result("Government Warning", "❌")]))).toBe(
+      "⚠️"
+    );
+    expect(
+      decideOverallStatus(
+        applySeverities([
+          result("Government Warning", "❌"),
+          result("Bottler/Producer: City", "❌"),
+        ])
+      )
+    ).toBe("❌");
+  });
+
+  it("ignores info results", () => {
+    expect(decideOverallStatus(applySeverities([result("Image Quality", "⚠️")]))).toBe("✅");
+  });
+});
+
+describe("loadDecisionPolicy", () => {
+  it("lists every problem in an invalid policy", () => {
+    expect(() => loadDecisionPolicy({ id: "broken" })).toThrow(/Invalid decision policy:\n- /);
+  });
+});
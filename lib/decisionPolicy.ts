@@ -0,0 +1,103 @@
+// Overall decision policy: assigns each verification result a severity and
+// weight, then decides the label's overall status from them.
+
+import defaultPolicy from "@/decision-policies/default.json";
+import { decisionPolicySchema } from "./schemas";
+import type { DecisionPolicy, ResultSeverity, VerificationResult } from "./schemas";
+
+export type { DecisionPolicy } from "./schemas";
+export type SeverityRule = DecisionPolicy["severities"][number];
+
+/**
+ * Parses and validates a decision policy loaded from JSON. Throws with every
+ * problem found so a broken policy fails loudly instead of passing labels.
+ */
+export function loadDecisionPolicy(json: unknown): DecisionPolicy {
+  const parsed = decisionPolicySchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("\n- ");
+    throw new Error(`Invalid decision policy:\n- ${issues}`);
+  }
+  return parsed.data;
+}
+
+// The policy new verifications are decided under; see its description.
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = loadDecisionPolicy(defaultPolicy);
+
+/**
+ * Describes a policy for display, e.g. "default v1".
+ */
+export function formatDecisionPolicy(policy: DecisionPolicy): string {
+  return `${policy.id} v${policy.version}`;
+}
+
+function matchesField(pattern: string, field: string): boolean {
+  return pattern.endsWith("*") ? field.startsWith(pattern.slice(0, -1)) : pattern === field;
+}
+
+/**
+ * Returns the policy's severity for a result field.
+ */
+export function getResultSeverity(
+  field: string,
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY
+): ResultSeverity {
+  return (
+    policy.severities.find((rule) => matchesField(rule.field, field))?.severity ??
+    policy.defaultSeverity
+  );
+}
+
+/**
+ * Sets the severity and weight of each result from the policy.
+ */
+export function applySeverities(
+  results: VerificationResult[],
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY
+): VerificationResult[] {
+  return results.map((result) => {
+    const severity = getResultSeverity(result.field, policy);
+    return { ...result, severity, weight: policy.weights[severity] };
+  });
+}
+
+/**
+ * Sums the weights of failed results, and of warnings scaled by the warning
+ * factor. Results stored without a severity are scored by the policy.
+ */
+export function scoreResults(
+  results: VerificationResult[],
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY
+): number {
+  return results.reduce((total, result) => {
+    const severity = result.severity ?? getResultSeverity(result.field, policy);
+    const weight = result.weight ?? policy.weights[severity];
+    const factor =
+      result.status === "❌" ? 1 : result.status === "⚠️" ? policy.warningFactor : 0;
+    return total + weight * factor;
+  }, 0);
+}
+
+/**
+ * Decides the overall status: fail on any failure with a fail-outright
+ * severity or a score at the threshold; otherwise warn when any result other
+ * than an info result is not a pass.
+ */
+export function decideOverallStatus(
+  results: VerificationResult[],
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY
+): "✅" | "⚠️" | "❌" {
+  const severityOf = (result: VerificationResult) =>
+    result.severity ?? getResultSeverity(result.field, policy);
+  const failsOutright = results.some(
+    (result) => result.status === "❌" && policy.failOnSeverities.includes(severityOf(result))
+  );
+  if (failsOutright || scoreResults(results, policy) >= policy.failThreshold) return "❌";
+
+  const hasIssue = results.some(
+    (result) => result.status !== "✅" && severityOf(result) !== "info"
+  );
+  return hasIssue ? "⚠️" : "✅";
+}
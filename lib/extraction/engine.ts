@@ -1,219 +1,67 @@
-import OpenAI from "openai";
-import type { ResponseInputMessageContentList } from "openai/resources/responses/responses";
-import { zodTextFormat } from "openai/helpers/zod";
-import { fieldAccuracySchema, extractedAlcoholLabelSchema } from "@/lib/schemas";
 import type {
   AccuracyDecision,
   ExtractedAlcoholLabel,
   ExpectedAlcoholLabel,
-  FieldAccuracy,
+  FieldEvaluation,
+  FieldEvaluators,
 } from "@/lib/schemas";
 import {
   applyEvaluationOverrides,
   buildDecision,
+  FIELD_KEYS,
   getEvaluationFlags,
+  requiresAlcoholStatement,
 } from "@/lib/extraction/heuristics";
-import {
-  evaluationInstructions,
-  extractionPrompt,
-  systemPrompt,
-} from "@/lib/extraction/prompts";
-import type { ExtractionCandidate, LoggerFns, StepResult } from "@/lib/extraction/types";
-
-function isRateLimitError(error: unknown): boolean {
-  const anyError = error as {
-    status?: number;
-    code?: string;
-    type?: string;
-    message?: string;
-    error?: { status?: number; code?: string; type?: string; message?: string };
-  };
-  const status = anyError?.status ?? anyError?.error?.status;
-  const code = anyError?.code ?? anyError?.error?.code ?? anyError?.type ?? anyError?.error?.type;
-  const message = anyError?.message ?? anyError?.error?.message ?? "";
-  return (
-    status === 429 ||
-    code === "rate_limit_exceeded" ||
-    code === "too_many_requests" ||
-    code === "insufficient_quota" ||
-    /rate limit/i.test(message)
-  );
-}
-
-function getErrorStatus(error: unknown, fallback: number): number {
-  const anyError = error as { status?: number; error?: { status?: number } };
-  const status = anyError?.status ?? anyError?.error?.status;
-  if (typeof status === "number") {
-    return status;
-  }
-  return isRateLimitError(error) ? 429 : fallback;
-}
-
-function getErrorMessage(error: unknown, fallback: string): string {
-  if (error instanceof Error && error.message) {
-    return error.message;
-  }
-  const anyError = error as { error?: { message?: string } };
-  return anyError?.error?.message ?? fallback;
-}
-
-const RATE_LIMIT_RETRIES = 4;
-const RATE_LIMIT_INITIAL_DELAY_MS = 2000;
-const RATE_LIMIT_MAX_DELAY_MS = 15000;
-
-const sleep = (ms: number) =>
-  new Promise<void>((resolve) => setTimeout(resolve, ms));
-
-async function callWithModelFallback<T>(
-  deployments: string[],
-  log: LoggerFns["log"],
-  label: string,
-  runner: (deployment: string) => Promise<T>
-): Promise<T> {
-  let attempt = 0;
-  let delayMs = RATE_LIMIT_INITIAL_DELAY_MS;
-
-  while (attempt <= RATE_LIMIT_RETRIES) {
-    let sawRateLimit = false;
-    for (const deployment of deployments) {
-      try {
-        if (deployment !== deployments[0]) {
-          log(`[extract-label] ${label} trying fallback model ${deployment}`);
-        }
-        return await runner(deployment);
-      } catch (error) {
-        if (isRateLimitError(error)) {
-          sawRateLimit = true;
-          log(`[extract-label] ${label} rate limited on ${deployment}`);
-          continue;
-        }
-        throw error;
-      }
-    }
-
-    if (!sawRateLimit || attempt === RATE_LIMIT_RETRIES) {
-      break;
-    }
-
-    log(
-      `[extract-label] ${label} rate limited on all models, waiting ${delayMs}ms before retry`
-    );
-    await sleep(delayMs);
-    attempt += 1;
-    delayMs = Math.min(delayMs * 2, RATE_LIMIT_MAX_DELAY_MS);
-  }
-
-  const waitError = new Error(
-    "All models are at capacity. Please wait and try again."
-  );
-  (waitError as { status?: number }).status = 429;
-  throw waitError;
-}
-
+import type { FieldKey } from "@/lib/extraction/heuristics";
+import { evaluateWithRules, toFieldEvaluation } from "@/lib/extraction/rules-evaluator";
+import { getErrorMessage, getErrorStatus } from "@/lib/extraction/utils";
+import type {
+  EvaluationFields,
+  EvaluationMode,
+  ExtractionCandidate,
+  LabelModelProvider,
+  LoggerFns,
+  StepResult,
+} from "@/lib/extraction/types";
 
-//This files extracts the alochol label from the image using Azure OpenAI. We run two extraction passes in parallel to reduce variance. We then evaluate each extraction against expected data and return the evaluation results as an array of candidates.
+//This files extracts the alochol label from the image using the configured model provider. We run a configurable number of extraction passes in parallel to reduce variance. We then evaluate each extraction against expected data and return the evaluation results as an array of candidates.
 
 // Run a single extraction pass and return the parsed label, if any.
 /**
- * Executes a single extraction call to Azure OpenAI and parses the result.
+ * Executes a single extraction call against the model provider.
  * Returns null if the response fails schema parsing.
  */
 export async function runExtractionPass(
-  client: OpenAI,
-  deployments: string[],
+  provider: LabelModelProvider,
   imageUrl: string,
   log: LoggerFns["log"],
-  attempt: number
+  attempt: number,
+  imageName?: string
 ): Promise<ExtractedAlcoholLabel | null> {
-  const start = performance.now();
-  // Send both instruction text and the image URL to the model.
-  const content: ResponseInputMessageContentList = [
-    { type: "input_text", text: extractionPrompt },
-  ];
-  content.push({ type: "input_image", image_url: imageUrl, detail: "high" });
-
-  // Parse directly into the expected schema so downstream code can trust types.
-  const response = await callWithModelFallback(
-    deployments,
-    log,
-    `attempt ${attempt}`,
-    async (deployment) => {
-      try {
-        return await client.responses.parse({
-          model: deployment,
-          input: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content },
-          ],
-          text: { format: zodTextFormat(extractedAlcoholLabelSchema, "label") },
-        });
-      } catch (error: any) {
-        const code =
-          error?.code ??
-          error?.error?.code ??
-          error?.error?.type ??
-          error?.type ??
-          "";
-        if (code === "content_policy_violation") {
-          log(
-            `[extract-label] ${`attempt ${attempt}`} content policy violation, retrying once`
-          );
-          await new Promise((resolve) => setTimeout(resolve, 300));
-          return await client.responses.parse({
-            model: deployment,
-            input: [
-              { role: "system", content: systemPrompt },
-              { role: "user", content },
-            ],
-            text: { format: zodTextFormat(extractedAlcoholLabelSchema, "label") },
-          });
-        }
-        throw error;
-      }
-    }
-  );
-
-  const durationMs = Math.round(performance.now() - start);
-  const attemptLabel = `attempt ${attempt}`;
-  log(`[extract-label] ${attemptLabel} openai call duration (ms):`, durationMs);
-
-  if (response.usage) {
-    log(`[extract-label] ${attemptLabel} token usage:`, {
-      input_tokens: response.usage.input_tokens,
-      output_tokens: response.usage.output_tokens,
-      total_tokens: response.usage.total_tokens,
-    });
-  } else {
-    log(`[extract-label] ${attemptLabel} token usage not returned`);
-  }
-
-  log(`[extract-label] ${attemptLabel} raw output text`, response.output_text);
-  log(`[extract-label] ${attemptLabel} parsed output`, response.output_parsed);
-
-  return response.output_parsed
-    ? (response.output_parsed as ExtractedAlcoholLabel)
-    : null;
+  return provider.extract({ imageUrl, imageName, attempt }, log);
 }
 
-// Run three extraction passes in parallel and keep only valid candidates.
+// Run N extraction passes in parallel and keep only valid candidates.
 /**
- * Runs three extraction passes in parallel and returns only valid candidates.
- * Emits errors when both passes fail or return no parsed data.
+ * Runs passCount extraction passes in parallel and returns only valid candidates.
+ * Emits errors when every pass fails or returns no parsed data.
  */
 export async function runExtractionPasses(
-  client: OpenAI,
-  deployments: string[],
+  provider: LabelModelProvider,
   imageUrl: string,
-  logger: LoggerFns
+  logger: LoggerFns,
+  passCount: number,
+  imageName?: string
 ): Promise<StepResult<ExtractionCandidate[]>> {
-  // Run three passes to reduce variance and pick the best result.
-  logger.log("[extract-label] running parallel extractions");
+  // Run several passes to reduce variance and pick the best result.
+  logger.log(`[extract-label] running ${passCount} parallel extractions`);
   let extractionResults: Array<ExtractedAlcoholLabel | null>;
   try {
-    extractionResults = await Promise.all([
-      runExtractionPass(client, deployments, imageUrl, logger.log, 1),
-      runExtractionPass(client, deployments, imageUrl, logger.log, 2)
-    ]);
+    extractionResults = await Promise.all(
+      Array.from({ length: passCount }, (_, index) =>
+        runExtractionPass(provider, imageUrl, logger.log, index + 1, imageName)
+      )
+    );
   } catch (error) {
     return {
       ok: false,
@@ -255,13 +103,17 @@ export async function runExtractionPasses(
  * We evaluate one extraction against expected label data and return an evaluation object.  
  * If the value extracted from a label for a specific field is considered valid, it gets a score of 1; otherwise, 0.
  * We then return the object of field accuracies for all fields.
- * 
+ * The mode picks the evaluator: "llm" asks the model, "rules" scores locally, and
+ * "hybrid" scores locally and only asks the model about fields the rules cannot decide.
+ * decidedBy records which evaluator produced each score and reasons explains it.
  */
 export async function runEvaluationPass(
-  client: OpenAI, 
-  deployments: string[],
+  provider: LabelModelProvider,
   expectedData: ExpectedAlcoholLabel,
-  extracted: ExtractedAlcoholLabel
+  extracted: ExtractedAlcoholLabel,
+  log: LoggerFns["log"],
+  mode: EvaluationMode,
+  imageName?: string
 ): Promise<AccuracyDecision | null> {
   // Only compare optional fields when the expected data says they matter.
   const flags = getEvaluationFlags(expectedData);
@@ -287,47 +139,119 @@ export async function runEvaluationPass(
     additivesDisclosed: flags.includeAdditives ? extracted.additivesDisclosed : null,
   };
 
-  const evalResponse = await callWithModelFallback(
-    deployments,
-    console.log,
-    "evaluation",
-    (deployment) =>
-      client.responses.parse({
-        model: deployment,
-        input: [
-          {
-            role: "system",
-            content:
-              "Compare expected vs extracted label data and decide if the extraction is accurate. Allow differences in wording or formattting.",
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "input_text",
-                text:
-                  evaluationInstructions +
-                  "Expected:\n" +
-                  JSON.stringify(evaluationExpected) +
-                  "\n\nExtracted:\n" +
-                  JSON.stringify(evaluationExtracted),
-              },
-            ],
-          },
-        ],
-        text: { format: zodTextFormat(fieldAccuracySchema, "evaluation") },
-      })
+  const evaluated = await scoreFields(
+    provider,
+    evaluationExpected,
+    evaluationExtracted,
+    log,
+    mode,
+    imageName
   );
 
-  if (!evalResponse.output_parsed) {
+  if (!evaluated) {
     return null;
   }
 
-  const adjusted = applyEvaluationOverrides(
-    evalResponse.output_parsed as FieldAccuracy,
-    flags
+  // Out-of-scope fields are forced to pass by rule, whatever scored them.
+  const adjusted = applyEvaluationOverrides(evaluated.fields, flags);
+  const decidedBy: FieldEvaluators = {
+    ...evaluated.decidedBy,
+    alcoholContent: flags.includeAlcohol ? evaluated.decidedBy.alcoholContent : "rules",
+    countryOfOrigin: flags.includeCountry ? evaluated.decidedBy.countryOfOrigin : "rules",
+    additivesDisclosed: flags.includeAdditives
+      ? evaluated.decidedBy.additivesDisclosed
+      : "rules",
+  };
+  const notRequired = "Not required for this product";
+  // Flavored malt beverages must state an ABV even when none is expected;
+  // the rule pack checks the statement is there.
+  const alcoholSkipped = requiresAlcoholStatement(expectedData)
+    ? "No expected ABV to compare; the required statement is checked by the Flavored Malt ABV Statement rule"
+    : notRequired;
+  const reasons = {
+    ...evaluated.reasons,
+    alcoholContent: flags.includeAlcohol ? evaluated.reasons.alcoholContent : alcoholSkipped,
+    countryOfOrigin: flags.includeCountry ? evaluated.reasons.countryOfOrigin : notRequired,
+    additivesDisclosed: flags.includeAdditives
+      ? evaluated.reasons.additivesDisclosed
+      : notRequired,
+  };
+  return buildDecision(adjusted, decidedBy, reasons);
+}
+
+/**
+ * Produces raw field scores with the selected evaluator. In hybrid mode the
+ * model only sees undecided fields; if it fails, the rules' best guesses stand.
+ */
+async function scoreFields(
+  provider: LabelModelProvider,
+  expected: EvaluationFields,
+  extracted: EvaluationFields,
+  log: LoggerFns["log"],
+  mode: EvaluationMode,
+  imageName?: string
+): Promise<(FieldEvaluation & { decidedBy: FieldEvaluators }) | null> {
+  const decidedByAll = (evaluator: "llm" | "rules") => {
+    const decidedBy = {} as FieldEvaluators;
+    FIELD_KEYS.forEach((key) => {
+      decidedBy[key] = evaluator;
+    });
+    return decidedBy;
+  };
+
+  if (mode === "llm") {
+    const evaluation = await provider.evaluate({ expected, extracted, imageName }, log);
+    return evaluation ? { ...evaluation, decidedBy: decidedByAll("llm") } : null;
+  }
+
+  const decisions = evaluateWithRules(expected, extracted);
+  const { fields, reasons } = toFieldEvaluation(decisions);
+  const decidedBy = decidedByAll("rules");
+  const undecided = FIELD_KEYS.filter((key) => !decisions[key].decisive);
+
+  if (mode === "rules" || undecided.length === 0) {
+    return { fields, reasons, decidedBy };
+  }
+
+  log(`[extract-label] hybrid evaluation asking model about: ${undecided.join(", ")}`);
+  const modelEvaluation = await provider.evaluate(
+    {
+      expected: pickFields(expected, undecided),
+      extracted: pickFields(extracted, undecided),
+      imageName,
+    },
+    log
   );
-  return buildDecision(adjusted);
+  if (!modelEvaluation) {
+    log("[extract-label] hybrid evaluation model returned no data, keeping rule scores");
+    return { fields, reasons, decidedBy };
+  }
+
+  undecided.forEach((key) => {
+    fields[key] = modelEvaluation.fields[key];
+    // Keep the rule's explanation if the model did not give one.
+    reasons[key] = modelEvaluation.reasons[key] ?? reasons[key];
+    decidedBy[key] = "llm";
+  });
+  return { fields, reasons, decidedBy };
+}
+
+/**
+ * Nulls every field except the given keys so the model only judges those.
+ */
+function pickFields(source: EvaluationFields, keys: FieldKey[]): EvaluationFields {
+  return {
+    brandName: keys.includes("brandName") ? source.brandName : null,
+    classType: keys.includes("classType") ? source.classType : null,
+    alcoholContent: keys.includes("alcoholContent") ? source.alcoholContent : null,
+    netContents: keys.includes("netContents") ? source.netContents : null,
+    governmentWarning: keys.includes("governmentWarning") ? source.governmentWarning : null,
+    bottlerProducer: keys.includes("bottlerProducer") ? source.bottlerProducer : null,
+    countryOfOrigin: keys.includes("countryOfOrigin") ? source.countryOfOrigin : null,
+    additivesDisclosed: keys.includes("additivesDisclosed")
+      ? source.additivesDisclosed
+      : null,
+  };
 }
 
 // Evaluate each candidate when expected data exists.
@@ -335,10 +259,12 @@ export async function runEvaluationPass(
  * Runs evaluation for each candidate in parallel when expected data is provided.
  */
 export async function evaluateCandidates(
-  client: OpenAI,
-  deployments: string[],
+  provider: LabelModelProvider,
   expectedData: ExpectedAlcoholLabel | null,
-  candidates: ExtractionCandidate[]
+  candidates: ExtractionCandidate[],
+  logger: LoggerFns,
+  mode: EvaluationMode,
+  imageName?: string
 ): Promise<ExtractionCandidate[]> {
   if (!expectedData) {
     return candidates;
@@ -346,7 +272,14 @@ export async function evaluateCandidates(
 
   const evaluations = await Promise.all(
     candidates.map((candidate) =>
-      runEvaluationPass(client, deployments, expectedData, candidate.extracted)
+      runEvaluationPass(
+        provider,
+        expectedData,
+        candidate.extracted,
+        logger.log,
+        mode,
+        imageName
+      )
     )
   );
 
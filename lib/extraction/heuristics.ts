@@ -7,10 +7,15 @@ import type {
   ExpectedAlcoholLabel,
   ExtractedAlcoholLabel,
   FieldAccuracy,
+  FieldEvaluators,
+  FieldReasons,
   GovernmentWarningField,
+  ProductType,
   SimpleField,
 } from "@/lib/schemas";
 import type { ExtractionCandidate } from "@/lib/extraction/types";
+import { parseAlcoholContent } from "@/lib/alcoholContent";
+import { inferProductType } from "@/lib/classTypes";
 import { normalizeForSimilarity, similarityRatio } from "@/lib/textSimilarity";
 
 // Keywords used to infer beer class/type when product type is unknown.
@@ -45,6 +50,40 @@ export const FIELD_KEYS = [
 
 export type FieldKey = (typeof FIELD_KEYS)[number];
 
+// Fields extracted for rule checks only; the evaluator does not score them.
+export const SUPPLEMENTAL_FIELD_KEYS = [
+  "proofStatement",
+  "ageStatement",
+  "appellation",
+  "vintage",
+  "varietal",
+] as const;
+
+export type SupplementalFieldKey = (typeof SUPPLEMENTAL_FIELD_KEYS)[number];
+
+// Every field the extraction model returns.
+export const EXTRACTED_FIELD_KEYS = [...FIELD_KEYS, ...SUPPLEMENTAL_FIELD_KEYS] as const;
+
+export type ExtractedFieldKey = (typeof EXTRACTED_FIELD_KEYS)[number];
+
+// Fields that carry a confidence score (additives are a flag set, not text).
+export const CONFIDENCE_FIELD_KEYS = [
+  "brandName",
+  "classType",
+  "alcoholContent",
+  "netContents",
+  "governmentWarning",
+  "bottlerProducer",
+  "countryOfOrigin",
+  "proofStatement",
+  "ageStatement",
+  "appellation",
+  "vintage",
+  "varietal",
+] as const;
+
+export type ConfidenceFieldKey = (typeof CONFIDENCE_FIELD_KEYS)[number];
+
 /**
  * Returns true when a class/type string looks beer-related.
  * Used to skip alcoholContent evaluation for beer products.
@@ -65,28 +104,46 @@ export function isWineClassType(value?: string | null): boolean {
 }
 
 /**
- * Parses the first numeric ABV value from a string; null if none found.
+ * Returns the expected product type, inferring it from the class/type when it
+ * was not given: the taxonomy first, then the beer and wine keyword checks.
+ */
+export function resolveProductType(expected: ExpectedAlcoholLabel): ProductType | null {
+  if (expected.productType) return expected.productType;
+  const classType = expected.classType?.text;
+  const inferred = inferProductType(classType);
+  if (inferred) return inferred;
+  if (isBeerClassType(classType)) return "beer";
+  if (isWineClassType(classType)) return "wine";
+  return null;
+}
+
+/**
+ * Parses the ABV from a statement such as "ALC. 40% BY VOL." or "80 PROOF";
+ * null if none found.
  */
 export function parseAbv(text?: string | null): number | null {
-  if (!text) return null;
-  const match = text.match(/(\d+(\.\d+)?)/);
-  if (!match) return null;
-  return Number.parseFloat(match[1]);
+  return parseAlcoholContent(text)?.abv ?? null;
+}
+
+/**
+ * Returns true when a malt beverage gets alcohol from added flavors, which
+ * makes an ABV statement mandatory (27 CFR 7.65).
+ */
+export function requiresAlcoholStatement(expected: ExpectedAlcoholLabel): boolean {
+  return resolveProductType(expected) === "beer" && expected.beerHasAddedFlavorsWithAlcohol;
 }
 
 /**
  * Determines whether to evaluate alcoholContent based on product type
- * and TTB exceptions (beer and low-ABV wine).
+ * and TTB exceptions (beer without alcohol-containing flavors and low-ABV wine).
  */
 export function shouldCheckAlcoholContent(expected: ExpectedAlcoholLabel): boolean {
-  const isBeer =
-    expected.productType === "beer" || isBeerClassType(expected.classType?.text);
-  if (isBeer) {
+  const productType = resolveProductType(expected);
+  if (productType === "beer" && !requiresAlcoholStatement(expected)) {
     return false;
   }
 
-  const isWine =
-    expected.productType === "wine" || isWineClassType(expected.classType?.text);
+  const isWine = productType === "wine";
   const abv = parseAbv(expected.alcoholContent?.text);
   if (isWine && abv !== null && abv < 7) {
     return false;
@@ -121,7 +178,8 @@ export function getEvaluationFlags(expected: ExpectedAlcoholLabel) {
 }
 
 /**
- * Forces optional fields to pass when they are out of scope.
+ * Forces optional fields to pass when they are out of scope. A required ABV
+ * statement with no expected value is checked by the core rule pack.
  */
 export function applyEvaluationOverrides(
   fields: FieldAccuracy,
@@ -138,9 +196,13 @@ export function applyEvaluationOverrides(
 /**
  * Converts per-field scores into a single pass/fail decision.
  */
-export function buildDecision(fields: FieldAccuracy) {
+export function buildDecision(
+  fields: FieldAccuracy,
+  decidedBy?: FieldEvaluators,
+  reasons?: FieldReasons
+) {
   const passed = Object.values(fields).every((value) => value === 1);
-  return { fields, passed };
+  return { fields, passed, decidedBy, reasons };
 }
 
 /**
@@ -234,6 +296,28 @@ export function similarityScore(
   return similarityRatio(extractedText, expectedText);
 }
 
+/**
+ * Produces a comparison key for a field value so equivalent readings from
+ * different passes vote together. Returns null for missing values.
+ */
+export function normalizeFieldValue(
+  key: ExtractedFieldKey,
+  value: ExtractedAlcoholLabel[ExtractedFieldKey]
+): string | null {
+  if (value === null || value === undefined) return null;
+
+  if (key === "additivesDisclosed") {
+    const additives = value as AdditiveDisclosure;
+    const keys = Object.keys(additives).sort() as Array<keyof AdditiveDisclosure>;
+    return keys.map((field) => `${field}:${additives[field] ? 1 : 0}`).join(",");
+  }
+
+  const text = normalizeForSimilarity(
+    getTextValue(value as SimpleField | GovernmentWarningField)
+  );
+  return text.length > 0 ? text : null;
+}
+
 /**
  * Chooses the best candidate for a field based on accuracy, similarity, and presence.
  */
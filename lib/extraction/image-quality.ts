@@ -0,0 +1,365 @@
+import sharp from "sharp";
+import type { ImageQualityIssue, ImageQualityReport } from "@/lib/schemas";
+import type { LoggerFns, StepResult } from "@/lib/extraction/types";
+
+// Measurements are taken on a grayscale copy no larger than this, so the
+// blur score does not depend on the upload's resolution.
+const ANALYSIS_MAX_DIMENSION = 1000;
+
+// The background is the value with the most pixels within this distance of it.
+const BACKGROUND_TOLERANCE = 12;
+
+// Pixel values at or above this are clipped highlights.
+const CLIPPED_VALUE = 250;
+
+// Background kept around the content region so edge detail is still measured.
+const CONTENT_MARGIN = 4;
+
+export type ImageQualityThresholds = {
+  // Shorter image side in pixels.
+  rejectShortSide: number;
+  warnShortSide: number;
+  // Variance of the Laplacian; low values mean little fine detail.
+  rejectBlur: number;
+  warnBlur: number;
+  // Standard deviation of luminance (0-255).
+  rejectContrast: number;
+  warnContrast: number;
+  // Mean luminance outside this range reads as under- or overexposed.
+  darkMean: number;
+  brightMean: number;
+  // Share of clipped pixels on an image whose background is not white.
+  warnGlare: number;
+  // Share of pixels that differ from the background; below this the image
+  // has no content.
+  rejectContentShare: number;
+  // Share of the content region matching the background.
+  warnBlank: number;
+};
+
+// Calibrated on label photos and PDF proofs: rejections are reserved for
+// images the model cannot read (thumbnails, blank or nearly black frames).
+export const DEFAULT_QUALITY_THRESHOLDS: ImageQualityThresholds = {
+  rejectShortSide: 300,
+  warnShortSide: 700,
+  rejectBlur: 15,
+  warnBlur: 100,
+  rejectContrast: 6,
+  warnContrast: 25,
+  darkMean: 45,
+  brightMean: 210,
+  warnGlare: 0.03,
+  rejectContentShare: 0.0002,
+  warnBlank: 0.98,
+};
+
+type LuminanceStats = {
+  mean: number;
+  deviation: number;
+  background: number;
+  backgroundShare: number;
+  clippedShare: number;
+  laplacianVariance: number;
+};
+
+/**
+ * Computes luminance statistics and the variance of the Laplacian (a standard
+ * sharpness measure) over an 8-bit grayscale image.
+ */
+function measureLuminance(pixels: Buffer, width: number, height: number): LuminanceStats {
+  const histogram = new Array<number>(256).fill(0);
+  let sum = 0;
+  let sumSquares = 0;
+  for (const value of pixels) {
+    histogram[value] += 1;
+    sum += value;
+    sumSquares += value * value;
+  }
+  const count = pixels.length;
+  const mean = sum / count;
+  const deviation = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+
+  // Windowed rather than single-value counts, so a small blown-out patch at
+  // 255 does not outrank a textured background.
+  const windowCounts = histogram.map((_, value) =>
+    histogram
+      .slice(Math.max(0, value - BACKGROUND_TOLERANCE), value + BACKGROUND_TOLERANCE + 1)
+      .reduce((total, count) => total + count, 0)
+  );
+  const backgroundCount = Math.max(...windowCounts);
+  const background = windowCounts.indexOf(backgroundCount);
+  const clippedCount = histogram
+    .slice(CLIPPED_VALUE)
+    .reduce((total, value) => total + value, 0);
+
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let laplacianCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      const laplacian =
+        pixels[index - 1] +
+        pixels[index + 1] +
+        pixels[index - width] +
+        pixels[index + width] -
+        4 * pixels[index];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      laplacianCount += 1;
+    }
+  }
+  const laplacianMean = laplacianCount > 0 ? laplacianSum / laplacianCount : 0;
+  const laplacianVariance =
+    laplacianCount > 0 ? laplacianSquares / laplacianCount - laplacianMean * laplacianMean : 0;
+
+  return {
+    mean,
+    deviation,
+    background,
+    backgroundShare: backgroundCount / count,
+    clippedShare: clippedCount / count,
+    laplacianVariance,
+  };
+}
+
+type ContentRegion = {
+  pixels: Buffer;
+  width: number;
+  height: number;
+  // Share of the whole image's pixels that differ from the background.
+  contentShare: number;
+};
+
+/**
+ * Crops a grayscale image to the pixels that differ from the background, so a
+ * small label on a large artboard (a rasterized PDF page) is measured on the
+ * label rather than the empty page. Returns null when no pixel differs.
+ */
+function findContentRegion(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  background: number
+): ContentRegion | null {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  let contentCount = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (Math.abs(pixels[y * width + x] - background) <= BACKGROUND_TOLERANCE) continue;
+      contentCount += 1;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  if (contentCount === 0) return null;
+
+  left = Math.max(0, left - CONTENT_MARGIN);
+  top = Math.max(0, top - CONTENT_MARGIN);
+  right = Math.min(width - 1, right + CONTENT_MARGIN);
+  bottom = Math.min(height - 1, bottom + CONTENT_MARGIN);
+  const cropWidth = right - left + 1;
+  const cropHeight = bottom - top + 1;
+  const cropped = Buffer.alloc(cropWidth * cropHeight);
+  for (let y = 0; y < cropHeight; y++) {
+    const start = (top + y) * width + left;
+    pixels.copy(cropped, y * cropWidth, start, start + cropWidth);
+  }
+  return {
+    pixels: cropped,
+    width: cropWidth,
+    height: cropHeight,
+    contentShare: contentCount / pixels.length,
+  };
+}
+
+/**
+ * Lists the quality problems for an image of the given size. Statistics are
+ * those of the content region; contentShare is the share of the whole image
+ * that differs from the background.
+ */
+function findQualityIssues(
+  width: number,
+  height: number,
+  contentShare: number,
+  stats: LuminanceStats,
+  thresholds: ImageQualityThresholds
+): ImageQualityIssue[] {
+  const issues: ImageQualityIssue[] = [];
+  const shortSide = Math.min(width, height);
+  const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+  if (shortSide < thresholds.rejectShortSide) {
+    issues.push({
+      check: "resolution",
+      level: "reject",
+      message: `Image is ${width}x${height} px; at least ${thresholds.rejectShortSide} px on the shorter side is needed`,
+    });
+  } else if (shortSide < thresholds.warnShortSide) {
+    issues.push({
+      check: "resolution",
+      level: "warn",
+      message: `Image is ${width}x${height} px; small text may not be legible below ${thresholds.warnShortSide} px`,
+    });
+  }
+
+  if (contentShare < thresholds.rejectContentShare) {
+    issues.push({ check: "blank", level: "reject", message: "Image is blank" });
+    // Blur, contrast and glare mean nothing on an empty frame.
+    return issues;
+  }
+  if (stats.backgroundShare >= thresholds.warnBlank) {
+    issues.push({
+      check: "blank",
+      level: "warn",
+      message: `Image is mostly blank (${percent(stats.backgroundShare)} background)`,
+    });
+  }
+
+  // Sparse layouts on a plain background have low overall contrast by design;
+  // the blank warning already covers them.
+  const mostlyBlank = stats.backgroundShare >= thresholds.warnBlank;
+  if (stats.deviation < thresholds.rejectContrast) {
+    issues.push({
+      check: "contrast",
+      level: "reject",
+      message: "Image has almost no contrast; the label cannot be read",
+    });
+  } else if (stats.deviation < thresholds.warnContrast && !mostlyBlank) {
+    const exposure =
+      stats.mean < thresholds.darkMean
+        ? " and is underexposed"
+        : stats.mean > thresholds.brightMean
+          ? " and is washed out"
+          : "";
+    issues.push({
+      check: "contrast",
+      level: "warn",
+      message: `Image has low contrast${exposure}`,
+    });
+  }
+
+  if (stats.laplacianVariance < thresholds.rejectBlur) {
+    issues.push({
+      check: "blur",
+      level: "reject",
+      message: "Image is too blurry to read",
+    });
+  } else if (stats.laplacianVariance < thresholds.warnBlur) {
+    issues.push({
+      check: "blur",
+      level: "warn",
+      message: "Image looks blurry; small text may be misread",
+    });
+  }
+
+  // A white background is all clipped pixels, so glare is only judged on
+  // images whose background is not white (photos of bottles and cans).
+  const whiteBackground = stats.background >= CLIPPED_VALUE - BACKGROUND_TOLERANCE;
+  if (!whiteBackground && stats.clippedShare >= thresholds.warnGlare) {
+    issues.push({
+      check: "glare",
+      level: "warn",
+      message: `${percent(stats.clippedShare)} of the image is blown out, likely glare`,
+    });
+  }
+
+  return issues;
+}
+
+// Check an image locally before it is sent to the model.
+/**
+ * Measures resolution, blur, contrast, glare and blank area of an image.
+ * Returns null when the image cannot be decoded; the model call then decides.
+ */
+export async function analyzeImageQuality(
+  buffer: Buffer,
+  name: string,
+  logger: LoggerFns,
+  thresholds: ImageQualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+): Promise<ImageQualityReport | null> {
+  try {
+    const metadata = await sharp(buffer).metadata();
+    // EXIF orientations 5-8 are rotated a quarter turn.
+    const quarterTurn = (metadata.orientation ?? 1) >= 5;
+    const width = (quarterTurn ? metadata.height : metadata.width) ?? 0;
+    const height = (quarterTurn ? metadata.width : metadata.height) ?? 0;
+    const { data, info } = await sharp(buffer)
+      .rotate()
+      .grayscale()
+      .resize({
+        width: ANALYSIS_MAX_DIMENSION,
+        height: ANALYSIS_MAX_DIMENSION,
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const frame = measureLuminance(data, info.width, info.height);
+    const content = findContentRegion(data, info.width, info.height, frame.background);
+    const stats = content
+      ? measureLuminance(content.pixels, content.width, content.height)
+      : frame;
+    const issues = findQualityIssues(
+      width,
+      height,
+      content?.contentShare ?? 0,
+      stats,
+      thresholds
+    );
+    logger.log(`[extract-label] image quality ${name}:`, {
+      width,
+      height,
+      contrast: Math.round(stats.deviation),
+      sharpness: Math.round(stats.laplacianVariance),
+      issues: issues.map((issue) => `${issue.level}:${issue.check}`),
+    });
+    return { name, width, height, issues };
+  } catch (error) {
+    logger.warn(`[extract-label] image quality check skipped for ${name}`, error);
+    return null;
+  }
+}
+
+// Stop before any model call when an image cannot be read.
+/**
+ * Analyzes each image and fails with a 422 listing the rejections, e.g.
+ * "back.jpg: Image is blank", when any image is unusable. Images that cannot
+ * be decoded are left out of the reports.
+ */
+export async function checkImageQuality(
+  images: Array<{ name: string; buffer: Buffer }>,
+  logger: LoggerFns
+): Promise<StepResult<ImageQualityReport[]>> {
+  const reports: ImageQualityReport[] = [];
+  for (const { name, buffer } of images) {
+    const report = await analyzeImageQuality(buffer, name, logger);
+    if (report) {
+      reports.push(report);
+    }
+  }
+
+  const rejections = reports.flatMap((report) =>
+    report.issues
+      .filter((issue) => issue.level === "reject")
+      .map((issue) => `${report.name}: ${issue.message}`)
+  );
+  if (rejections.length > 0) {
+    return {
+      ok: false,
+      error: {
+        ok: false,
+        status: 422,
+        error: `Image quality too low to verify. ${rejections.join("; ")}`,
+        quality: reports,
+      },
+    };
+  }
+  return { ok: true, value: reports };
+}
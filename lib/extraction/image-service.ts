@@ -1,5 +1,7 @@
 import sharp from "sharp";
 import type { LoggerFns, StepResult } from "@/lib/extraction/types";
+import { isPdf, rasterizePdf } from "@/lib/extraction/pdf-service";
+import { correctLabelGeometry } from "@/lib/extraction/label-geometry";
 
 // Fallback when a file has no MIME type.
 const DEFAULT_MIME_TYPE = "image/jpeg";
@@ -7,19 +9,46 @@ const DEFAULT_MIME_TYPE = "image/jpeg";
 // Compress the image (best effort) and encode it for model ingestion.
 /**
  * Compresses the image when possible and returns a data URL
- * that can be sent directly to the model.
+ * that can be sent directly to the model. PDFs are normally split into pages
+ * by loadImageBytes first; a single-page PDF passed here is rasterized. With
+ * correctGeometry the label is first deskewed, cropped and
+ * perspective-corrected; corrected is true when that changed the image.
  */
 export async function compressAndEncodeImage(
   buffer: Buffer,
   mimeType: string,
-  logger: LoggerFns
-): Promise<StepResult<{ imageUrl: string }>> {
+  logger: LoggerFns,
+  options: { correctGeometry?: boolean } = {}
+): Promise<StepResult<{ imageUrl: string; corrected: boolean }>> {
+  if (isPdf(buffer, mimeType)) {
+    const pagesResult = await rasterizePdf(buffer, 1, logger);
+    if (!pagesResult.ok) {
+      return pagesResult;
+    }
+    return compressAndEncodeImage(pagesResult.value[0], "image/png", logger, options);
+  }
+
   let uploadBuffer = buffer;
   let uploadContentType = mimeType;
 
+  // Optional; a failed correction leaves the image as uploaded.
+  let sourceBuffer = buffer;
+  let corrected = false;
+  if (options.correctGeometry) {
+    try {
+      const correctedBuffer = await correctLabelGeometry(buffer, logger);
+      if (correctedBuffer) {
+        sourceBuffer = correctedBuffer;
+        corrected = true;
+      }
+    } catch (geometryError) {
+      logger.warn("[extract-label] label geometry correction failed", geometryError);
+    }
+  }
+
   // Attempt compression to reduce size and improve OCR; fall back on failure.
   try {
-    const pipeline = sharp(buffer);
+    const pipeline = sharp(sourceBuffer);
     pipeline.resize({ width: 1600, withoutEnlargement: true });
     pipeline.rotate();
     pipeline.normalize();
@@ -41,5 +70,5 @@ export async function compressAndEncodeImage(
   const imageUrl = `data:${uploadContentType};base64,${uploadBuffer.toString(
     "base64"
   )}`;
-  return { ok: true, value: { imageUrl } };
+  return { ok: true, value: { imageUrl, corrected } };
 }
@@ -1,46 +1,154 @@
-import OpenAI from "openai";
 import { evaluateCandidates, runExtractionPasses } from "@/lib/extraction/engine";
-import { countMissingFields } from "@/lib/extraction/heuristics";
-import { mergeCandidates } from "@/lib/extraction/merger";
+import {
+  mergeByConsensus,
+  mergeCandidates,
+  mergePanels,
+} from "@/lib/extraction/merger";
 import { compressAndEncodeImage } from "@/lib/extraction/image-service";
+import { checkImageQuality } from "@/lib/extraction/image-quality";
+import { createLabelModelProvider } from "@/lib/extraction/providers";
 import {
-  getImageFromFormData,
+  decodeDataUrl,
+  getPageName,
+  getPanelsFromFormData,
   loadImageBytes,
   parseExpectedData,
+  resolveEvaluationMode,
+  resolveGeometryCorrection,
   resolveLogger,
+  resolvePassCount,
   validateConfig,
 } from "@/lib/extraction/utils";
-import type { ExpectedAlcoholLabel } from "@/lib/schemas";
+import { MAX_LABEL_PANELS } from "@/lib/schemas";
+import type {
+  ExpectedAlcoholLabel,
+  ImageQualityReport,
+  LabelPanel,
+  LabelPanelRole,
+} from "@/lib/schemas";
 import type {
+  EvaluationMode,
+  ExtractLabelError,
   ExtractLabelResult,
+  ExtractLabelSuccess,
   ExtractionCandidate,
   FormDataLike,
+  LabelPanelImage,
   Logger,
   LoggerFns,
-  OpenAIConfig,
+  ModelProviderConfig,
+  PipelineSettings,
+  StepResult,
 } from "@/lib/extraction/types";
 
+type ExtractLabelOptions = {
+  logger?: Logger;
+  passes?: number;
+  evaluator?: EvaluationMode;
+  correctGeometry?: boolean;
+};
+
+/**
+ * Converts an evaluation failure into an error response.
+ */
+function toEvaluationError(error: unknown): ExtractLabelError {
+  const status =
+    typeof (error as { status?: number })?.status === "number"
+      ? (error as { status?: number }).status!
+      : 502;
+  const message =
+    (error as Error)?.message ?? "Evaluation failed. Please try again later.";
+  return { ok: false, status, error: message };
+}
+
+/**
+ * Adds the image quality reports to a successful result.
+ */
+function withQuality(
+  result: ExtractLabelResult,
+  quality: ImageQualityReport[]
+): ExtractLabelResult {
+  return result.ok ? { ...result, quality } : result;
+}
+
+/**
+ * Adds the first image as the model saw it to a successful result, when it
+ * was geometry-corrected or rasterized from a PDF.
+ */
+function withPreviewImages(
+  result: ExtractLabelResult,
+  images: Pick<ExtractLabelSuccess, "correctedImage" | "pageImage">
+): ExtractLabelResult {
+  if (!result.ok) return result;
+  return {
+    ...result,
+    ...(images.correctedImage ? { correctedImage: images.correctedImage } : {}),
+    ...(images.pageImage ? { pageImage: images.pageImage } : {}),
+  };
+}
+
+/**
+ * Runs the quality pre-check on pre-encoded images. URLs that are not base64
+ * data URLs cannot be inspected locally and are skipped.
+ */
+async function checkDataUrlQuality(
+  images: Array<{ name: string; imageUrl: string }>,
+  logger: LoggerFns
+) {
+  return checkImageQuality(
+    images.flatMap(({ name, imageUrl }) => {
+      const buffer = decodeDataUrl(imageUrl);
+      return buffer ? [{ name, buffer }] : [];
+    }),
+    logger
+  );
+}
+
+/**
+ * Corrects the label geometry of a pre-encoded image when enabled. The image
+ * is returned as sent when correction is off, finds nothing to correct, or the
+ * URL is not a base64 data URL.
+ */
+async function correctDataUrlGeometry(
+  imageUrl: string,
+  correctGeometry: boolean,
+  logger: LoggerFns
+): Promise<StepResult<{ imageUrl: string; corrected: boolean }>> {
+  const unchanged = { ok: true as const, value: { imageUrl, corrected: false } };
+  if (!correctGeometry) return unchanged;
+  const buffer = decodeDataUrl(imageUrl);
+  if (!buffer) {
+    logger.warn("[extract-label] geometry correction skipped; image is not a base64 data URL");
+    return unchanged;
+  }
+  const mimeType = /^data:([^;,]*)/.exec(imageUrl)?.[1] ?? "";
+  const imageResult = await compressAndEncodeImage(buffer, mimeType, logger, {
+    correctGeometry,
+  });
+  return !imageResult.ok || imageResult.value.corrected ? imageResult : unchanged;
+}
+
 /**
  * Runs the shared extraction/evaluation pipeline once an image payload is available.
  */
 async function extractFromImageUrl(
   imageUrl: string,
   expectedData: ExpectedAlcoholLabel | null,
-  config: OpenAIConfig,
+  config: ModelProviderConfig,
   logger: LoggerFns,
-  imageLabel?: string
+  settings: PipelineSettings
 ): Promise<ExtractLabelResult> {
-  // Initialize OpenAI client for extraction and evaluation calls.
-  const client = new OpenAI({
-    apiKey: config.apiKey,
-    baseURL: config.endpoint,
-  });
+  const { passCount, evaluationMode, imageLabel } = settings;
+  // One provider instance serves both extraction and evaluation calls.
+  const provider = createLabelModelProvider(config);
+  logger.log(`[extract-label] model provider: ${provider.name}`);
 
   const extractionResult = await runExtractionPasses(
-    client,
-    config.deployments,
+    provider,
     imageUrl,
-    logger
+    logger,
+    passCount,
+    imageLabel
   );
   if (!extractionResult.ok) {
     return extractionResult.error;
@@ -49,19 +157,15 @@ async function extractFromImageUrl(
   let evaluatedCandidates: ExtractionCandidate[];
   try {
     evaluatedCandidates = await evaluateCandidates(
-      client,
-      config.deployments,
+      provider,
       expectedData,
-      extractionResult.value
+      extractionResult.value,
+      logger,
+      evaluationMode,
+      imageLabel
     );
   } catch (error) {
-    const status =
-      typeof (error as { status?: number })?.status === "number"
-        ? (error as { status?: number }).status!
-        : 502;
-    const message =
-      (error as Error)?.message ?? "Evaluation failed. Please try again later.";
-    return { ok: false, status, error: message };
+    return toEvaluationError(error);
   }
 
   if (expectedData) {
@@ -75,30 +179,110 @@ async function extractFromImageUrl(
   }
 
   if (!expectedData) {
-    const bestCandidate = evaluatedCandidates.reduce((best, candidate) => {
-      const bestMissing = countMissingFields(best.extracted);
-      const candidateMissing = countMissingFields(candidate.extracted);
-      if (candidateMissing !== bestMissing) {
-        return candidateMissing < bestMissing ? candidate : best;
-      }
-      return candidate.index < best.index ? candidate : best;
-    });
-    return { ok: true, label: bestCandidate.extracted, evaluation: null };
+    const consensus = mergeByConsensus(evaluatedCandidates, logger);
+    return {
+      ok: true,
+      label: consensus.label,
+      evaluation: null,
+      agreement: consensus.agreement,
+    };
   }
 
   const merged = mergeCandidates(evaluatedCandidates, expectedData, logger);
-  return { ok: true, label: merged.label, evaluation: merged.evaluation };
+  return {
+    ok: true,
+    label: merged.label,
+    evaluation: merged.evaluation,
+    agreement: merged.agreement,
+  };
+}
+
+/**
+ * Runs the pipeline for a label submitted as several images. Each panel gets
+ * its own extraction passes and consensus merge; the panels are then combined
+ * into one label, which is evaluated once against the expected data.
+ */
+async function extractFromPanels(
+  panelImages: LabelPanelImage[],
+  expectedData: ExpectedAlcoholLabel | null,
+  config: ModelProviderConfig,
+  logger: LoggerFns,
+  settings: PipelineSettings
+): Promise<ExtractLabelResult> {
+  const { passCount, evaluationMode, imageLabel } = settings;
+  const provider = createLabelModelProvider(config);
+  logger.log(`[extract-label] model provider: ${provider.name}`);
+  logger.log(`[extract-label] extracting ${panelImages.length} panels`);
+
+  // Panels run one after another so a label never has more than passCount
+  // model calls in flight.
+  const panels = [];
+  for (const { panel, imageUrl } of panelImages) {
+    const extractionResult = await runExtractionPasses(
+      provider,
+      imageUrl,
+      logger,
+      passCount,
+      panel.name
+    );
+    if (!extractionResult.ok) {
+      return extractionResult.error;
+    }
+    const consensus = mergeByConsensus(extractionResult.value, logger);
+    panels.push({ name: panel.name, label: consensus.label, agreement: consensus.agreement });
+  }
+
+  const merged = mergePanels(panels, logger);
+  if (!expectedData) {
+    return {
+      ok: true,
+      label: merged.label,
+      evaluation: null,
+      agreement: merged.agreement,
+      fieldPanels: merged.fieldPanels,
+    };
+  }
+
+  let evaluatedCandidates: ExtractionCandidate[];
+  try {
+    evaluatedCandidates = await evaluateCandidates(
+      provider,
+      expectedData,
+      [{ extracted: merged.label, evaluation: null, index: 0 }],
+      logger,
+      evaluationMode,
+      imageLabel
+    );
+  } catch (error) {
+    return toEvaluationError(error);
+  }
+
+  const evaluation = evaluatedCandidates[0].evaluation;
+  logger.log(
+    `[extract-label] panel evaluation${imageLabel ? ` (${imageLabel})` : ""}`,
+    evaluation ?? null
+  );
+  return {
+    ok: true,
+    label: merged.label,
+    evaluation,
+    agreement: merged.agreement,
+    fieldPanels: merged.fieldPanels,
+  };
 }
 
 /**
  * Orchestrates the full extraction pipeline from multipart form data.
- * Expects a required "image" file and an optional "expected" JSON string.
- * Steps: validate config, load bytes, compress + encode, run two
- * extraction passes, evaluate, then select the best candidate.
+ * Expects one or more "image" files, each optionally paired with a
+ * "panelRole" entry in the same order, plus optional "labelName", "expected"
+ * JSON, "passes", "evaluator" and "correctGeometry" fields. Steps: validate
+ * config, load bytes, check image quality, correct label geometry when
+ * enabled, compress + encode, run the extraction passes, evaluate, then merge
+ * the candidates. Several images are treated as panels of one label.
  */
 export async function extractLabelFromFormData(
   formData: FormDataLike,
-  options: { logger?: Logger } = {}
+  options: ExtractLabelOptions = {}
 ): Promise<ExtractLabelResult> {
   const configResult = validateConfig();
   if (!configResult.ok) {
@@ -106,45 +290,113 @@ export async function extractLabelFromFormData(
   }
 
   const logger = resolveLogger(options.logger);
-  const formImageResult = getImageFromFormData(formData);
-  if (!formImageResult.ok) {
-    return formImageResult.error;
+  const formPanelsResult = getPanelsFromFormData(formData, logger.warn);
+  if (!formPanelsResult.ok) {
+    return formPanelsResult.error;
   }
 
   // Expected data is optional; missing/invalid inputs only affect evaluation.
   const expectedData = parseExpectedData(formData.get("expected"), logger.warn);
+  const passCount = resolvePassCount(
+    options.passes ?? formData.get("passes"),
+    logger.warn
+  );
+  const evaluationMode = resolveEvaluationMode(
+    options.evaluator ?? formData.get("evaluator"),
+    logger.warn
+  );
+  const correctGeometry = resolveGeometryCorrection(
+    options.correctGeometry ?? formData.get("correctGeometry"),
+    logger.warn
+  );
 
-  const imageBytesResult = await loadImageBytes(formImageResult.value);
-  if (!imageBytesResult.ok) {
-    return imageBytesResult.error;
+  // Each page of a PDF proof becomes a panel of its own; pages share the
+  // label's panel limit with the other images.
+  const loadedPanels: Array<
+    LabelPanel & { buffer: Buffer; mimeType: string; pdfPage: boolean }
+  > = [];
+  const images = formPanelsResult.value;
+  for (const [index, { image, role }] of images.entries()) {
+    const remaining = MAX_LABEL_PANELS - loadedPanels.length - (images.length - index - 1);
+    const imageBytesResult = await loadImageBytes(image, logger, remaining);
+    if (!imageBytesResult.ok) {
+      return imageBytesResult.error;
+    }
+
+    const pages = imageBytesResult.value;
+    const name = image.name || `panel ${index + 1}`;
+    pages.forEach((page, pageIndex) => {
+      loadedPanels.push(
+        pages.length > 1
+          ? { ...page, name: getPageName(name, pageIndex), role: null }
+          : { ...page, name, role }
+      );
+    });
   }
 
-  const imageResult = await compressAndEncodeImage(
-    imageBytesResult.value.buffer,
-    imageBytesResult.value.mimeType,
-    logger
-  );
-  if (!imageResult.ok) {
-    return imageResult.error;
+  // Unreadable images are rejected here, before any model call is spent.
+  const qualityResult = await checkImageQuality(loadedPanels, logger);
+  if (!qualityResult.ok) {
+    return qualityResult.error;
+  }
+  const quality = qualityResult.value;
+
+  const panelImages: LabelPanelImage[] = [];
+  const previewImages: Pick<ExtractLabelSuccess, "correctedImage" | "pageImage"> = {};
+  for (const [index, { name, role, buffer, mimeType, pdfPage }] of loadedPanels.entries()) {
+    const imageResult = await compressAndEncodeImage(buffer, mimeType, logger, {
+      correctGeometry,
+    });
+    if (!imageResult.ok) {
+      return imageResult.error;
+    }
+    // Review highlights are drawn on the first panel, so its corrected image
+    // replaces the upload as the preview, and a PDF page stands in for the
+    // PDF the browser cannot show.
+    if (index === 0 && imageResult.value.corrected) {
+      previewImages.correctedImage = imageResult.value.imageUrl;
+    }
+    if (index === 0 && pdfPage) {
+      previewImages.pageImage = imageResult.value.imageUrl;
+    }
+    panelImages.push({ panel: { name, role }, imageUrl: imageResult.value.imageUrl });
+  }
+
+  if (panelImages.length === 1) {
+    const imageLabel = formPanelsResult.value[0].image.name ?? undefined;
+    const result = await extractFromImageUrl(
+      panelImages[0].imageUrl,
+      expectedData,
+      configResult.value,
+      logger,
+      { passCount, evaluationMode, imageLabel }
+    );
+    return withPreviewImages(withQuality(result, quality), previewImages);
   }
 
-  const imageLabel = formImageResult.value.name ?? undefined;
-  return extractFromImageUrl(
-    imageResult.value.imageUrl,
+  const labelName = formData.get("labelName");
+  const imageLabel =
+    typeof labelName === "string" && labelName.trim().length > 0
+      ? labelName.trim()
+      : panelImages[0].panel.name;
+  const result = await extractFromPanels(
+    panelImages,
     expectedData,
     configResult.value,
     logger,
-    imageLabel
+    { passCount, evaluationMode, imageLabel }
   );
+  return withPreviewImages(withQuality(result, quality), previewImages);
 }
 
 /**
- * Orchestrates extraction using a pre-encoded image data URL.
+ * Orchestrates extraction using a pre-encoded image data URL. With geometry
+ * correction enabled the image is corrected and re-encoded first.
  */
 export async function extractLabelFromImageDataUrl(
   imageDataUrl: string,
   expectedData: ExpectedAlcoholLabel | null,
-  options: { logger?: Logger; imageName?: string } = {}
+  options: ExtractLabelOptions & { imageName?: string } = {}
 ): Promise<ExtractLabelResult> {
   const configResult = validateConfig();
   if (!configResult.ok) {
@@ -153,13 +405,109 @@ export async function extractLabelFromImageDataUrl(
 
   const logger = resolveLogger(options.logger);
   const imageLabel = options.imageName;
-  return extractFromImageUrl(
-    imageDataUrl,
+  const passCount = resolvePassCount(options.passes, logger.warn);
+  const evaluationMode = resolveEvaluationMode(options.evaluator, logger.warn);
+  const correctGeometry = resolveGeometryCorrection(options.correctGeometry, logger.warn);
+  const qualityResult = await checkDataUrlQuality(
+    [{ name: imageLabel ?? "image", imageUrl: imageDataUrl }],
+    logger
+  );
+  if (!qualityResult.ok) {
+    return qualityResult.error;
+  }
+
+  const imageResult = await correctDataUrlGeometry(imageDataUrl, correctGeometry, logger);
+  if (!imageResult.ok) {
+    return imageResult.error;
+  }
+  const { imageUrl, corrected } = imageResult.value;
+  const result = await extractFromImageUrl(
+    imageUrl,
     expectedData,
     configResult.value,
     logger,
-    imageLabel
+    { passCount, evaluationMode, imageLabel }
+  );
+  return withPreviewImages(withQuality(result, qualityResult.value), {
+    correctedImage: corrected ? imageUrl : undefined,
+  });
+}
+
+/**
+ * Orchestrates extraction for a label submitted as several pre-encoded image
+ * data URLs, one per panel.
+ */
+export async function extractLabelFromPanelDataUrls(
+  panels: Array<{ imageDataUrl: string; name?: string; role?: LabelPanelRole | null }>,
+  expectedData: ExpectedAlcoholLabel | null,
+  options: ExtractLabelOptions & { imageName?: string } = {}
+): Promise<ExtractLabelResult> {
+  if (panels.length === 1) {
+    return extractLabelFromImageDataUrl(panels[0].imageDataUrl, expectedData, {
+      ...options,
+      imageName: options.imageName ?? panels[0].name,
+    });
+  }
+
+  const configResult = validateConfig();
+  if (!configResult.ok) {
+    return configResult.error;
+  }
+
+  const logger = resolveLogger(options.logger);
+  const passCount = resolvePassCount(options.passes, logger.warn);
+  const evaluationMode = resolveEvaluationMode(options.evaluator, logger.warn);
+  const correctGeometry = resolveGeometryCorrection(options.correctGeometry, logger.warn);
+  const qualityResult = await checkDataUrlQuality(
+    panels.map((panel, index) => ({
+      name: panel.name || `panel ${index + 1}`,
+      imageUrl: panel.imageDataUrl,
+    })),
+    logger
+  );
+  if (!qualityResult.ok) {
+    return qualityResult.error;
+  }
+
+  const panelImages: LabelPanelImage[] = [];
+  let correctedImage: string | undefined;
+  for (const [index, panel] of panels.entries()) {
+    const imageResult = await correctDataUrlGeometry(
+      panel.imageDataUrl,
+      correctGeometry,
+      logger
+    );
+    if (!imageResult.ok) {
+      return imageResult.error;
+    }
+    if (index === 0 && imageResult.value.corrected) {
+      correctedImage = imageResult.value.imageUrl;
+    }
+    panelImages.push({
+      panel: { name: panel.name || `panel ${index + 1}`, role: panel.role ?? null },
+      imageUrl: imageResult.value.imageUrl,
+    });
+  }
+
+  const result = await extractFromPanels(
+    panelImages,
+    expectedData,
+    configResult.value,
+    logger,
+    {
+      passCount,
+      evaluationMode,
+      imageLabel: options.imageName ?? panelImages[0].panel.name,
+    }
   );
+  return withPreviewImages(withQuality(result, qualityResult.value), { correctedImage });
 }
 
-export type { ExtractLabelError, ExtractLabelResult, ExtractLabelSuccess } from "@/lib/extraction/types";
+export type {
+  EvaluationMode,
+  ExtractLabelError,
+  ExtractLabelResult,
+  ExtractLabelSuccess,
+  FieldPanels,
+  PassAgreement,
+} from "@/lib/extraction/types";
@@ -0,0 +1,542 @@
+import sharp from "sharp";
+import type { LoggerFns } from "@/lib/extraction/types";
+
+// Longest side of the image the corrected label is resampled from; the image
+// service downsizes further afterwards.
+const WORK_MAX_DIMENSION = 2400;
+
+// Longest side of the grayscale copy the label is located on.
+const ANALYSIS_MAX_DIMENSION = 800;
+
+// Gradient magnitude floor for an edge pixel; the strongest tenth of
+// gradients above it count as edges.
+const MIN_EDGE_MAGNITUDE = 60;
+const EDGE_PERCENTILE = 0.9;
+const MIN_EDGE_POINTS = 500;
+
+// Skew angles searched, in degrees; smaller skews are left alone.
+const MAX_SKEW = 15;
+const SKEW_STEP = 0.5;
+const MIN_SKEW = 1;
+
+// Share of edge points ignored on each side when bounding the label, so a
+// few background edges do not widen the crop, and the margin added back.
+const EDGE_TRIM = 0.02;
+const CROP_MARGIN = 0.04;
+
+// Regions smaller than this share of the frame are not trusted as the label;
+// crops keeping more than this share of both sides are skipped.
+const MIN_REGION_SHARE = 0.1;
+const MAX_CROP_SHARE = 0.95;
+
+// Label border lines: slopes searched (run over rise), the share of the
+// label's side a border must be traced along, and how far in from the
+// region's edge it is looked for. Only edges whose gradient runs across the
+// border by this factor vote, so text and texture do not form borders.
+const MAX_BORDER_SLOPE = 0.35;
+const BORDER_SLOPE_STEP = 0.01;
+const MIN_BORDER_COVERAGE = 0.45;
+const BORDER_SEARCH_SHARE = 0.3;
+const BORDER_GRADIENT_RATIO = 2;
+
+// A perspective outline must keep at least this share of the label region.
+const MIN_OUTLINE_SHARE = 0.6;
+
+// Opposite sides shorter than this ratio of each other mean the label was
+// photographed at an angle; below the minimum the borders are not believed.
+const MAX_KEYSTONE_RATIO = 0.97;
+const MIN_KEYSTONE_RATIO = 0.6;
+
+type Point = { x: number; y: number };
+
+// An edge pixel; vertical/horizontal mark edges running that way.
+type EdgePoint = Point & { vertical: boolean; horizontal: boolean };
+
+// A straight border through (position, mid) with the given slope, where
+// position is measured across the border and mid along it.
+type BorderLine = { position: number; slope: number; mid: number };
+
+type Region = { left: number; right: number; top: number; bottom: number };
+
+// Corners in order: top left, top right, bottom right, bottom left.
+type Quad = [Point, Point, Point, Point];
+
+type GrayImage = { data: Buffer; width: number; height: number };
+
+/**
+ * Finds edge pixels with a Sobel filter and returns their coordinates and
+ * direction.
+ */
+function findEdgePoints({ data, width, height }: GrayImage): EdgePoint[] {
+  const magnitudes = new Float32Array(width * height);
+  const gradientsX = new Float32Array(width * height);
+  const gradientsY = new Float32Array(width * height);
+  const histogram = new Array<number>(256).fill(0);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        data[i - width + 1] + 2 * data[i + 1] + data[i + width + 1] -
+        data[i - width - 1] - 2 * data[i - 1] - data[i + width - 1];
+      const gy =
+        data[i + width - 1] + 2 * data[i + width] + data[i + width + 1] -
+        data[i - width - 1] - 2 * data[i - width] - data[i - width + 1];
+      const magnitude = Math.hypot(gx, gy);
+      magnitudes[i] = magnitude;
+      gradientsX[i] = gx;
+      gradientsY[i] = gy;
+      histogram[Math.min(255, Math.floor(magnitude / 4))] += 1;
+    }
+  }
+
+  let threshold = MIN_EDGE_MAGNITUDE;
+  let seen = 0;
+  const total = (width - 2) * (height - 2);
+  for (let bin = 0; bin < 256; bin++) {
+    seen += histogram[bin];
+    if (seen >= total * EDGE_PERCENTILE) {
+      threshold = Math.max(threshold, bin * 4);
+      break;
+    }
+  }
+
+  const points: EdgePoint[] = [];
+  magnitudes.forEach((magnitude, i) => {
+    if (magnitude >= threshold) {
+      const gx = Math.abs(gradientsX[i]);
+      const gy = Math.abs(gradientsY[i]);
+      points.push({
+        x: i % width,
+        y: Math.floor(i / width),
+        vertical: gx >= gy * BORDER_GRADIENT_RATIO,
+        horizontal: gy >= gx * BORDER_GRADIENT_RATIO,
+      });
+    }
+  });
+  return points;
+}
+
+/**
+ * Estimates the skew in degrees from the projection profile of edge points
+ * centered on the origin: text lines and label borders line up into the
+ * sharpest row histogram at the label's angle.
+ */
+function estimateSkew(points: Point[], extent: number): number {
+  const bins = new Int32Array(2 * extent + 1);
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (const { x, y } of points) {
+      bins[Math.round(-x * sin + y * cos) + extent] += 1;
+    }
+    let score = 0;
+    for (const count of bins) score += count * count;
+    // Prefer the smaller correction when scores tie.
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+/**
+ * Bounds the edge points, ignoring the outermost few on each side, plus a
+ * margin.
+ */
+function findRegion(points: Point[]): Region {
+  const xs = points.map((point) => point.x).sort((a, b) => a - b);
+  const ys = points.map((point) => point.y).sort((a, b) => a - b);
+  const at = (values: number[], share: number) =>
+    values[Math.min(values.length - 1, Math.floor(values.length * share))];
+  const left = at(xs, EDGE_TRIM);
+  const right = at(xs, 1 - EDGE_TRIM);
+  const top = at(ys, EDGE_TRIM);
+  const bottom = at(ys, 1 - EDGE_TRIM);
+  const marginX = (right - left) * CROP_MARGIN;
+  const marginY = (bottom - top) * CROP_MARGIN;
+  return {
+    left: left - marginX,
+    right: right + marginX,
+    top: top - marginY,
+    bottom: bottom + marginY,
+  };
+}
+
+/**
+ * Share of a border's length, over the span along it, that has an edge pixel
+ * on the line.
+ */
+function borderCoverage(
+  points: Array<[number, number]>,
+  line: BorderLine,
+  alongStart: number,
+  alongEnd: number
+): number {
+  const length = Math.ceil(alongEnd - alongStart) + 1;
+  const covered = new Uint8Array(length);
+  for (const [across, along] of points) {
+    const index = Math.round(along - alongStart);
+    if (index >= 0 && index < length && Math.abs(across - borderAt(line, along)) <= 2) {
+      covered[index] = 1;
+    }
+  }
+  return covered.reduce((total, value) => total + value, 0) / length;
+}
+
+/**
+ * Finds the strongest straight border near each end of a span with a Hough
+ * vote over slopes. Points are given as (across, along) pairs; a border must
+ * be traced along enough of the other span to count.
+ */
+function findBorders(
+  points: Array<[number, number]>,
+  span: { start: number; end: number },
+  alongSpan: { start: number; end: number }
+): [BorderLine | null, BorderLine | null] {
+  const { start, end } = span;
+  const mid = (alongSpan.start + alongSpan.end) / 2;
+  const width = end - start;
+  const searchWidth = width * BORDER_SEARCH_SHARE;
+  const size = Math.ceil(width) + 1;
+  const votes = new Int32Array(size);
+  let first: BorderLine | null = null;
+  let firstVotes = 0;
+  let last: BorderLine | null = null;
+  let lastVotes = 0;
+
+  const slopeSteps = Math.round((2 * MAX_BORDER_SLOPE) / BORDER_SLOPE_STEP);
+  for (let step = 0; step <= slopeSteps; step++) {
+    const slope = -MAX_BORDER_SLOPE + step * BORDER_SLOPE_STEP;
+    votes.fill(0);
+    for (const [across, along] of points) {
+      const position = Math.round(across + slope * (mid - along) - start);
+      if (position >= 0 && position < size) votes[position] += 1;
+    }
+    for (let position = 1; position < size - 1; position++) {
+      // Edges are a few pixels wide; count the neighbouring bins too.
+      const count = votes[position - 1] + votes[position] + votes[position + 1];
+      if (position <= searchWidth && count > firstVotes) {
+        firstVotes = count;
+        first = { position: position + start, slope, mid };
+      }
+      if (position >= width - searchWidth && count > lastVotes) {
+        lastVotes = count;
+        last = { position: position + start, slope, mid };
+      }
+    }
+  }
+
+  const traced = (line: BorderLine | null) =>
+    line && borderCoverage(points, line, alongSpan.start, alongSpan.end) >= MIN_BORDER_COVERAGE
+      ? line
+      : null;
+  return [traced(first), traced(last)];
+}
+
+/**
+ * Position across a border at a point along it.
+ */
+function borderAt(line: BorderLine, along: number): number {
+  return line.position + line.slope * (along - line.mid);
+}
+
+/**
+ * Intersects a near-vertical border (x along y) with a near-horizontal one
+ * (y along x).
+ */
+function intersect(vertical: BorderLine, horizontal: BorderLine): Point {
+  // x = pv + sv (y - mv), y = ph + sh (x - mh)
+  const horizontalAtZero = horizontal.position - horizontal.slope * horizontal.mid;
+  const x =
+    (vertical.position + vertical.slope * (horizontalAtZero - vertical.mid)) /
+    (1 - vertical.slope * horizontal.slope);
+  return { x, y: borderAt(horizontal, x) };
+}
+
+/**
+ * Ratio of the shorter to the longer of two lengths.
+ */
+function sideRatio(a: number, b: number): number {
+  return Math.min(a, b) / Math.max(a, b);
+}
+
+/**
+ * Returns the label outline when its borders converge (a keystone from a
+ * photo taken at an angle), or null when the label is seen straight on or
+ * its borders cannot be traced. Missing borders fall back to the region.
+ */
+function findKeystone(points: EdgePoint[], region: Region): Quad | null {
+  const inside = points.filter(
+    ({ x, y }) => x >= region.left && x <= region.right && y >= region.top && y <= region.bottom
+  );
+  const horizontalSpan = { start: region.left, end: region.right };
+  const verticalSpan = { start: region.top, end: region.bottom };
+  const midX = (region.left + region.right) / 2;
+  const midY = (region.top + region.bottom) / 2;
+
+  let [left, right] = findBorders(
+    inside.filter((point) => point.vertical).map(({ x, y }) => [x, y]),
+    horizontalSpan,
+    verticalSpan
+  );
+  let [top, bottom] = findBorders(
+    inside.filter((point) => point.horizontal).map(({ x, y }) => [y, x]),
+    verticalSpan,
+    horizontalSpan
+  );
+
+  const converging = (
+    first: BorderLine | null,
+    last: BorderLine | null,
+    from: number,
+    to: number
+  ) => {
+    if (!first || !last) return false;
+    const ratio = sideRatio(
+      borderAt(last, from) - borderAt(first, from),
+      borderAt(last, to) - borderAt(first, to)
+    );
+    return ratio >= MIN_KEYSTONE_RATIO && ratio < MAX_KEYSTONE_RATIO;
+  };
+  if (
+    !converging(left, right, region.top, region.bottom) &&
+    !converging(top, bottom, region.left, region.right)
+  ) {
+    return null;
+  }
+
+  left ??= { position: region.left, slope: 0, mid: midY };
+  right ??= { position: region.right, slope: 0, mid: midY };
+  top ??= { position: region.top, slope: 0, mid: midX };
+  bottom ??= { position: region.bottom, slope: 0, mid: midX };
+  return [
+    intersect(left, top),
+    intersect(right, top),
+    intersect(right, bottom),
+    intersect(left, bottom),
+  ];
+}
+
+/**
+ * Builds the projective map from the unit square onto a quad (Heckbert's
+ * square-to-quad mapping).
+ */
+function squareToQuad([p0, p1, p2, p3]: Quad): (s: number, t: number) => Point {
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / det;
+  const h = det === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / det;
+  const a = p1.x - p0.x + g * p1.x;
+  const b = p3.x - p0.x + h * p3.x;
+  const d = p1.y - p0.y + g * p1.y;
+  const e = p3.y - p0.y + h * p3.y;
+  return (s, t) => {
+    const w = g * s + h * t + 1;
+    return { x: (a * s + b * t + p0.x) / w, y: (d * s + e * t + p0.y) / w };
+  };
+}
+
+/**
+ * Returns true when the quad's corners turn the same way all round.
+ */
+function isConvex(quad: Quad): boolean {
+  const turns = quad.map((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    return (next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x);
+  });
+  return turns.every((turn) => turn > 0) || turns.every((turn) => turn < 0);
+}
+
+/**
+ * Area of a quad by the shoelace formula.
+ */
+function quadArea(quad: Quad): number {
+  const twice = quad.reduce((total, point, i) => {
+    const next = quad[(i + 1) % 4];
+    return total + point.x * next.y - next.x * point.y;
+  }, 0);
+  return Math.abs(twice) / 2;
+}
+
+/**
+ * Resamples an RGB image so the source quad fills a width x height output,
+ * with bilinear interpolation; points outside the source repeat its edge.
+ */
+function warpQuad(
+  source: GrayImage & { channels: number },
+  map: (s: number, t: number) => Point,
+  width: number,
+  height: number
+): Buffer {
+  const { data, channels } = source;
+  const output = Buffer.alloc(width * height * channels);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const { x, y } = map((u + 0.5) / width, (v + 0.5) / height);
+      const sx = Math.min(maxX, Math.max(0, x));
+      const sy = Math.min(maxY, Math.max(0, y));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const target = (v * width + u) * channels;
+      for (let c = 0; c < channels; c++) {
+        const top = data[(y0 * source.width + x0) * channels + c] * (1 - fx) +
+          data[(y0 * source.width + x1) * channels + c] * fx;
+        const bottom = data[(y1 * source.width + x0) * channels + c] * (1 - fx) +
+          data[(y1 * source.width + x1) * channels + c] * fx;
+        output[target + c] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Locates the label in a photo, then deskews it, crops to it and, when its
+ * borders converge, corrects the perspective, all in one resampling step.
+ * Returns a PNG of the corrected label, or null when the label cannot be
+ * located or already sits straight in the frame.
+ */
+export async function correctLabelGeometry(
+  buffer: Buffer,
+  logger: LoggerFns
+): Promise<Buffer | null> {
+  const metadata = await sharp(buffer).metadata();
+  // EXIF orientations 5-8 are rotated a quarter turn.
+  const quarterTurn = (metadata.orientation ?? 1) >= 5;
+  const originalSize = quarterTurn
+    ? `${metadata.height}x${metadata.width}`
+    : `${metadata.width}x${metadata.height}`;
+  const { data: sourceData, info: sourceInfo } = await sharp(buffer)
+    .rotate()
+    .resize({
+      width: WORK_MAX_DIMENSION,
+      height: WORK_MAX_DIMENSION,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { data: grayData, info: grayInfo } = await sharp(sourceData, {
+    raw: { width: sourceInfo.width, height: sourceInfo.height, channels: sourceInfo.channels },
+  })
+    .resize({
+      width: ANALYSIS_MAX_DIMENSION,
+      height: ANALYSIS_MAX_DIMENSION,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const gray = { data: grayData, width: grayInfo.width, height: grayInfo.height };
+  const edges = findEdgePoints(gray);
+  if (edges.length < MIN_EDGE_POINTS) {
+    logger.log("[extract-label] label geometry: too little detail to locate the label");
+    return null;
+  }
+
+  // Work in coordinates centered on the frame and rotated by the skew, so the
+  // label's rows run horizontally.
+  const centerX = gray.width / 2;
+  const centerY = gray.height / 2;
+  const centered = edges.map((point) => ({
+    ...point,
+    x: point.x - centerX,
+    y: point.y - centerY,
+  }));
+  const extent = Math.ceil(Math.hypot(gray.width, gray.height) / 2) + 1;
+  const measuredSkew = estimateSkew(centered, extent);
+  const skew = Math.abs(measuredSkew) >= MIN_SKEW ? measuredSkew : 0;
+  const radians = (skew * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const straightened = centered.map((point) => ({
+    ...point,
+    x: point.x * cos + point.y * sin,
+    y: -point.x * sin + point.y * cos,
+  }));
+
+  const region = findRegion(straightened);
+  const regionWidth = region.right - region.left;
+  const regionHeight = region.bottom - region.top;
+  if (regionWidth * regionHeight < gray.width * gray.height * MIN_REGION_SHARE) {
+    logger.log("[extract-label] label geometry: no label-sized region found");
+    return null;
+  }
+
+  const keystone = findKeystone(straightened, region);
+  const cropped =
+    regionWidth < gray.width * MAX_CROP_SHARE || regionHeight < gray.height * MAX_CROP_SHARE;
+  const outlineTrusted =
+    keystone !== null &&
+    isConvex(keystone) &&
+    quadArea(keystone) >= regionWidth * regionHeight * MIN_OUTLINE_SHARE;
+  const quad: Quad | null =
+    keystone && outlineTrusted
+      ? keystone
+      : skew !== 0 || cropped
+        ? [
+            { x: region.left, y: region.top },
+            { x: region.right, y: region.top },
+            { x: region.right, y: region.bottom },
+            { x: region.left, y: region.bottom },
+          ]
+        : null;
+  if (!quad) {
+    logger.log("[extract-label] label geometry: label already straight and framed");
+    return null;
+  }
+
+  // Map output pixels to the straightened quad, back through the skew to the
+  // analysis frame, then up to the working image.
+  const scale = sourceInfo.width / gray.width;
+  const toQuad = squareToQuad(quad);
+  const map = (s: number, t: number): Point => {
+    const { x, y } = toQuad(s, t);
+    return {
+      x: (x * cos - y * sin + centerX) * scale - 0.5,
+      y: (x * sin + y * cos + centerY) * scale - 0.5,
+    };
+  };
+  // The output takes the longer of each pair of opposite sides.
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  const outputLength = (a: number, b: number) =>
+    Math.max(1, Math.min(WORK_MAX_DIMENSION, Math.round(Math.max(a, b) * scale)));
+  const width = outputLength(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const height = outputLength(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+
+  const channels = sourceInfo.channels;
+  const corrected = warpQuad(
+    { data: sourceData, width: sourceInfo.width, height: sourceInfo.height, channels },
+    map,
+    width,
+    height
+  );
+  logger.log(
+    `[extract-label] label geometry: ${originalSize} -> ${width}x${height}`,
+    { skew, cropped, perspective: quad === keystone }
+  );
+  return sharp(corrected, { raw: { width, height, channels } })
+    .png({ compressionLevel: 1 })
+    .toBuffer();
+}
@@ -1,20 +1,225 @@
 import type {
   AccuracyDecision,
+  AdditiveDisclosure,
   ExtractedAlcoholLabel,
   ExpectedAlcoholLabel,
+  FieldEvaluators,
+  FieldReasons,
 } from "@/lib/schemas";
-import type { ExtractionCandidate, LoggerFns } from "@/lib/extraction/types";
+import { clampConfidence, combineConfidence } from "@/lib/confidence";
+import type {
+  ExtractionCandidate,
+  FieldPanels,
+  LoggerFns,
+  PassAgreement,
+} from "@/lib/extraction/types";
 import {
   buildDefaultFields,
+  CONFIDENCE_FIELD_KEYS,
+  EXTRACTED_FIELD_KEYS,
   FIELD_KEYS,
   getEvaluationFlags,
   getExpectedValue,
+  normalizeFieldValue,
   similarityScore,
   selectContender,
+  SUPPLEMENTAL_FIELD_KEYS,
+} from "@/lib/extraction/heuristics";
+import type {
+  ConfidenceFieldKey,
+  ExtractedFieldKey,
 } from "@/lib/extraction/heuristics";
 
+type ConfidenceCarrier = { confidence?: number | null } | null;
+
+function createEmptyLabel(): ExtractedAlcoholLabel {
+  return {
+    brandName: null,
+    classType: null,
+    alcoholContent: null,
+    netContents: null,
+    governmentWarning: null,
+    bottlerProducer: null,
+    countryOfOrigin: null,
+    additivesDisclosed: null,
+    proofStatement: null,
+    ageStatement: null,
+    appellation: null,
+    vintage: null,
+    varietal: null,
+  };
+}
+
+/**
+ * Copies a single field from a source label onto the merged label.
+ */
+function copyField(
+  target: ExtractedAlcoholLabel,
+  source: ExtractedAlcoholLabel,
+  key: ExtractedFieldKey
+) {
+  switch (key) {
+    case "brandName":
+      target.brandName = source.brandName;
+      break;
+    case "classType":
+      target.classType = source.classType;
+      break;
+    case "alcoholContent":
+      target.alcoholContent = source.alcoholContent;
+      break;
+    case "netContents":
+      target.netContents = source.netContents;
+      break;
+    case "governmentWarning":
+      target.governmentWarning = source.governmentWarning;
+      break;
+    case "bottlerProducer":
+      target.bottlerProducer = source.bottlerProducer;
+      break;
+    case "countryOfOrigin":
+      target.countryOfOrigin = source.countryOfOrigin;
+      break;
+    case "additivesDisclosed":
+      target.additivesDisclosed = source.additivesDisclosed;
+      break;
+    case "proofStatement":
+      target.proofStatement = source.proofStatement ?? null;
+      break;
+    case "ageStatement":
+      target.ageStatement = source.ageStatement ?? null;
+      break;
+    case "appellation":
+      target.appellation = source.appellation ?? null;
+      break;
+    case "vintage":
+      target.vintage = source.vintage ?? null;
+      break;
+    case "varietal":
+      target.varietal = source.varietal ?? null;
+      break;
+  }
+}
+
+/**
+ * Counts how many candidates read a field the same way as the merged label.
+ */
+function countAgreement(
+  candidates: ExtractionCandidate[],
+  merged: ExtractedAlcoholLabel,
+  key: ExtractedFieldKey
+): number {
+  const target = normalizeFieldValue(key, merged[key]);
+  return candidates.filter(
+    (candidate) => normalizeFieldValue(key, candidate.extracted[key]) === target
+  ).length;
+}
+
+function buildAgreement(
+  candidates: ExtractionCandidate[],
+  merged: ExtractedAlcoholLabel
+): PassAgreement {
+  const fields = {} as PassAgreement["fields"];
+  EXTRACTED_FIELD_KEYS.forEach((key) => {
+    fields[key] = countAgreement(candidates, merged, key);
+  });
+  return { passes: candidates.length, fields };
+}
+
+/**
+ * Sets a confidence on each merged text field from the share of passes that
+ * agreed with it and the average certainty those passes self-reported.
+ * Fields are copied so candidate objects are left untouched.
+ */
+function applyConfidence(
+  candidates: ExtractionCandidate[],
+  merged: ExtractedAlcoholLabel,
+  agreement: PassAgreement
+) {
+  const fields = merged as unknown as Record<ConfidenceFieldKey, ConfidenceCarrier>;
+  CONFIDENCE_FIELD_KEYS.forEach((key) => {
+    const field = fields[key];
+    if (!field) return;
+
+    const target = normalizeFieldValue(key, merged[key]);
+    const reported = candidates
+      .filter(
+        (candidate) =>
+          normalizeFieldValue(key, candidate.extracted[key]) === target
+      )
+      .map((candidate) => (candidate.extracted[key] as ConfidenceCarrier)?.confidence)
+      .filter((value): value is number => typeof value === "number")
+      .map(clampConfidence);
+    const selfReported =
+      reported.length > 0
+        ? reported.reduce((sum, value) => sum + value, 0) / reported.length
+        : null;
+
+    fields[key] = {
+      ...field,
+      confidence: combineConfidence(
+        agreement.fields[key] / Math.max(agreement.passes, 1),
+        selfReported
+      ),
+    };
+  });
+}
+
+/**
+ * Picks the candidate whose reading of a field won the majority vote. Values
+ * are normalized and grouped; the largest group wins. Ties prefer a present
+ * value over null, then the group first seen in pass order.
+ */
+function selectConsensusSource(
+  candidates: ExtractionCandidate[],
+  key: ExtractedFieldKey
+): ExtractionCandidate {
+  const groups = new Map<string | null, ExtractionCandidate[]>();
+  candidates.forEach((candidate) => {
+    const normalized = normalizeFieldValue(key, candidate.extracted[key]);
+    const group = groups.get(normalized) ?? [];
+    group.push(candidate);
+    groups.set(normalized, group);
+  });
+
+  let winnerValue: string | null = null;
+  let winnerMembers: ExtractionCandidate[] = [];
+  for (const [value, members] of groups) {
+    const isLarger = members.length > winnerMembers.length;
+    const breaksNullTie =
+      members.length === winnerMembers.length &&
+      winnerValue === null &&
+      value !== null;
+    if (isLarger || breaksNullTie) {
+      winnerValue = value;
+      winnerMembers = members;
+    }
+  }
+
+  return winnerMembers.reduce((best, current) =>
+    current.index < best.index ? current : best
+  );
+}
 
+/**
+ * Builds a merged label without expected data by majority vote per field.
+ */
+export function mergeByConsensus(
+  candidates: ExtractionCandidate[],
+  logger: LoggerFns
+): { label: ExtractedAlcoholLabel; agreement: PassAgreement } {
+  const mergedLabel = createEmptyLabel();
+
+  EXTRACTED_FIELD_KEYS.forEach((key) => {
+    copyField(mergedLabel, selectConsensusSource(candidates, key).extracted, key);
+  });
 
+  const agreement = buildAgreement(candidates, mergedLabel);
+  applyConfidence(candidates, mergedLabel, agreement);
+  logger.log("[extract-label] consensus agreement", agreement);
+
+  return { label: mergedLabel, agreement };
+}
 
 /**
  * Chooses a single merged label from multiple extraction candidates by scoring
@@ -22,12 +227,17 @@ import {
  * It builds a merged label from those winners, then marks a field as accurate
  * only if at least one candidate scored that field as accurate. The returned
  * evaluation reflects these merged field scores and overall pass/fail.
+ * Supplemental fields have no scores and are merged by majority vote.
  */
 export function mergeCandidates(
   candidates: ExtractionCandidate[],
   expected: ExpectedAlcoholLabel,
   logger: LoggerFns
-): { label: ExtractedAlcoholLabel; evaluation: AccuracyDecision } {
+): {
+  label: ExtractedAlcoholLabel;
+  evaluation: AccuracyDecision;
+  agreement: PassAgreement;
+} {
   const flags = getEvaluationFlags(expected);
   const fallbackFields = buildDefaultFields(flags, 0);
   const candidateFields = candidates.map(
@@ -35,16 +245,12 @@ export function mergeCandidates(
   );
 
   const mergedFields = buildDefaultFields(flags, 0);
-  const mergedLabel: ExtractedAlcoholLabel = {
-    brandName: null,
-    classType: null,
-    alcoholContent: null,
-    netContents: null,
-    governmentWarning: null,
-    bottlerProducer: null,
-    countryOfOrigin: null,
-    additivesDisclosed: null,
-  };
+  const mergedLabel = createEmptyLabel();
+  // Each field reports the evaluator and reason that scored the winning candidate.
+  const mergedDecidedBy = {} as FieldEvaluators;
+  let hasDecidedBy = true;
+  const mergedReasons = {} as FieldReasons;
+  let hasReasons = false;
 
   FIELD_KEYS.forEach((key) => {
     const expectedValue = getExpectedValue(expected, key);
@@ -60,41 +266,105 @@ export function mergeCandidates(
 
     const hasAccurate = contenders.some((contender) => contender.score === 1);
     const best = selectContender(contenders, hasAccurate);
-    const selected = candidates[best.index].extracted;
-    switch (key) {
-      case "brandName":
-        mergedLabel.brandName = selected.brandName;
-        break;
-      case "classType":
-        mergedLabel.classType = selected.classType;
-        break;
-      case "alcoholContent":
-        mergedLabel.alcoholContent = selected.alcoholContent;
-        break;
-      case "netContents":
-        mergedLabel.netContents = selected.netContents;
-        break;
-      case "governmentWarning":
-        mergedLabel.governmentWarning = selected.governmentWarning;
-        break;
-      case "bottlerProducer":
-        mergedLabel.bottlerProducer = selected.bottlerProducer;
-        break;
-      case "countryOfOrigin":
-        mergedLabel.countryOfOrigin = selected.countryOfOrigin;
-        break;
-      case "additivesDisclosed":
-        mergedLabel.additivesDisclosed = selected.additivesDisclosed;
-        break;
-    }
+    copyField(mergedLabel, candidates[best.index].extracted, key);
     mergedFields[key] = hasAccurate ? 1 : 0;
+    const decider = candidates[best.index].evaluation?.decidedBy?.[key];
+    if (decider) {
+      mergedDecidedBy[key] = decider;
+    } else {
+      hasDecidedBy = false;
+    }
+    const reason = candidates[best.index].evaluation?.reasons?.[key] ?? null;
+    mergedReasons[key] = reason;
+    hasReasons = hasReasons || reason !== null;
+  });
+
+  SUPPLEMENTAL_FIELD_KEYS.forEach((key) => {
+    copyField(mergedLabel, selectConsensusSource(candidates, key).extracted, key);
   });
 
   const passed = Object.values(mergedFields).every((value) => value === 1);
   logger.log("[extract-label] merged evaluation", mergedFields, { passed });
 
+  const agreement = buildAgreement(candidates, mergedLabel);
+  applyConfidence(candidates, mergedLabel, agreement);
+
   return {
     label: mergedLabel,
-    evaluation: { fields: mergedFields, passed },
+    evaluation: {
+      fields: mergedFields,
+      passed,
+      decidedBy: hasDecidedBy ? mergedDecidedBy : undefined,
+      reasons: hasReasons ? mergedReasons : undefined,
+    },
+    agreement,
+  };
+}
+
+/**
+ * Combines the labels read from each image of a multi-panel label. Each field
+ * comes from the panel that read it with the highest confidence, ties going
+ * to the earlier panel. Additive disclosures may be printed on any panel, so
+ * their flags are combined.
+ */
+export function mergePanels(
+  panels: Array<{
+    name: string;
+    label: ExtractedAlcoholLabel;
+    agreement: PassAgreement;
+  }>,
+  logger: LoggerFns
+): {
+  label: ExtractedAlcoholLabel;
+  agreement: PassAgreement;
+  fieldPanels: FieldPanels;
+} {
+  const mergedLabel = createEmptyLabel();
+  const fields = {} as PassAgreement["fields"];
+  const fieldPanels: FieldPanels = {};
+  const getConfidence = (panel: (typeof panels)[number], key: ExtractedFieldKey) =>
+    (panel.label[key] as ConfidenceCarrier)?.confidence ?? 0;
+
+  EXTRACTED_FIELD_KEYS.forEach((key) => {
+    const readings = panels.filter(
+      (panel) => normalizeFieldValue(key, panel.label[key]) !== null
+    );
+    const source =
+      readings.length > 0
+        ? readings.reduce((best, current) =>
+            getConfidence(current, key) > getConfidence(best, key) ? current : best
+          )
+        : panels[0];
+    copyField(mergedLabel, source.label, key);
+    fields[key] = source.agreement.fields[key];
+    if (readings.length > 0) {
+      fieldPanels[key] = source.name;
+    }
+  });
+
+  const disclosing = panels.filter((panel) =>
+    Object.values(panel.label.additivesDisclosed ?? {}).some(Boolean)
+  );
+  if (disclosing.length > 1) {
+    const combined = { ...disclosing[0].label.additivesDisclosed! };
+    const flags = Object.keys(combined) as Array<keyof AdditiveDisclosure>;
+    disclosing.forEach((panel) => {
+      flags.forEach((flag) => {
+        combined[flag] = combined[flag] || Boolean(panel.label.additivesDisclosed?.[flag]);
+      });
+    });
+    mergedLabel.additivesDisclosed = combined;
+    fieldPanels.additivesDisclosed = disclosing.map((panel) => panel.name).join(", ");
+  } else if (disclosing.length === 1) {
+    mergedLabel.additivesDisclosed = disclosing[0].label.additivesDisclosed;
+    fieldPanels.additivesDisclosed = disclosing[0].name;
+  }
+
+  const agreement = {
+    passes: Math.max(...panels.map((panel) => panel.agreement.passes)),
+    fields,
   };
+  logger.log("[extract-label] panel sources", fieldPanels);
+
+  return { label: mergedLabel, agreement, fieldPanels };
 }
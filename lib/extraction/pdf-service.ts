@@ -0,0 +1,101 @@
+import path from "path";
+import type { LoggerFns, StepResult } from "@/lib/extraction/types";
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+// Longest edge of a rasterized page; the image service downsizes from here.
+const PAGE_MAX_DIMENSION = 2000;
+
+// Upper bound on render scale so small pages are not blown up past 288 DPI.
+const MAX_PAGE_SCALE = 4;
+
+// Metrics for the 14 standard PDF fonts, used when a proof does not embed them.
+const STANDARD_FONTS_DIR = path.join(
+  process.cwd(),
+  "node_modules/pdfjs-dist/standard_fonts/"
+);
+
+/**
+ * Returns true when the bytes are a PDF, by MIME type or the "%PDF-" header.
+ */
+export function isPdf(buffer: Buffer, mimeType: string): boolean {
+  return (
+    mimeType === PDF_MIME_TYPE ||
+    buffer.subarray(0, 5).toString("latin1") === "%PDF-"
+  );
+}
+
+// Render each PDF page to a PNG so artwork proofs go through the image pipeline.
+/**
+ * Rasterizes every page of a PDF locally. Fails when the document cannot be
+ * read or has more pages than maxPages.
+ */
+export async function rasterizePdf(
+  buffer: Buffer,
+  maxPages: number,
+  logger: LoggerFns
+): Promise<StepResult<Buffer[]>> {
+  // Loaded on demand: pdf.js is large and only needed for PDF uploads.
+  const [pdfjs, { createCanvas }] = await Promise.all([
+    import("pdfjs-dist/legacy/build/pdf.mjs"),
+    import("@napi-rs/canvas"),
+  ]);
+
+  let document: Awaited<ReturnType<typeof pdfjs.getDocument>["promise"]>;
+  try {
+    document = await pdfjs.getDocument({
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      standardFontDataUrl: STANDARD_FONTS_DIR,
+    }).promise;
+  } catch (error) {
+    logger.warn("[extract-label] PDF could not be read", error);
+    return {
+      ok: false,
+      error: { ok: false, status: 400, error: "PDF file could not be read" },
+    };
+  }
+
+  try {
+    if (document.numPages > maxPages) {
+      return {
+        ok: false,
+        error: {
+          ok: false,
+          status: 400,
+          error: `PDF has ${document.numPages} pages; at most ${maxPages} are supported per label`,
+        },
+      };
+    }
+
+    const pages: Buffer[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const scale = Math.min(MAX_PAGE_SCALE, PAGE_MAX_DIMENSION / Math.max(width, height));
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext("2d");
+      // Pages without a background render transparent; proofs are read on white.
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      // pdf.js is typed against the DOM canvas; the Node canvas implements
+      // the parts it uses.
+      await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport })
+        .promise;
+      pages.push(Buffer.from(canvas.toBuffer("image/png")));
+      page.cleanup();
+    }
+
+    logger.log(`[extract-label] rasterized ${pages.length} PDF page(s)`);
+    return { ok: true, value: pages };
+  } catch (error) {
+    logger.warn("[extract-label] PDF rasterization failed", error);
+    return {
+      ok: false,
+      error: { ok: false, status: 422, error: "PDF pages could not be rendered" },
+    };
+  } finally {
+    await document.destroy();
+  }
+}
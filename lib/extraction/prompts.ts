@@ -12,7 +12,7 @@ export const systemPrompt =
   "If you are unsure of a character, make your best visual guess rather than fixing it. " +
   "Return null only if text is not visible at all. " +
   "Only governmentWarning includes isBold and isAllCaps, and those flags refer to the " +
-  "\"GOVERNMENT WARNING\" header text only.";
+  "\"GOVERNMENT WARNING\" header text only; isBodyBold refers to the rest of the warning.";
 
 
 // Main instruction block for extraction.
@@ -37,6 +37,15 @@ export const extractionPrompt =
   "- alcoholContent: the ABV as printed (e.g. \"13.5% ALC./VOL.\" or \"4% ABV\").\n" +
   "  - If the label is beer/malt beverage and ABV is not shown, return null.\n" +
   "  - If the label is a wine under 7% ABV, return null.\n" +
+  "- proofStatement: the proof statement as printed (e.g. \"80 PROOF\"), if any.\n" +
+  "  - Return null if the label shows no proof.\n" +
+  "  - Do NOT compute proof from the ABV.\n" +
+  "- ageStatement: the age statement as printed (e.g. \"Aged 4 Years\", \"12 YEAR OLD\"), if any.\n" +
+  "  - Return null if the label states no age. Do NOT treat a vintage year as an age.\n" +
+  "- appellation: wine only; the appellation of origin as printed (e.g. \"Napa Valley\", \"Bordeaux\"), if any.\n" +
+  "- vintage: wine only; the vintage year as printed (e.g. \"2019\"), if any.\n" +
+  "- varietal: wine only; the grape variety designation as printed (e.g. \"Cabernet Sauvignon\", \"60% Merlot 40% Cabernet Franc\"), if any.\n" +
+  "  - Return null for appellation, vintage and varietal on non-wine labels.\n" +
   "- netContents: net contents in milliliters as printed (e.g. \"750 ML\").\n" +
   "- bottlerProducer: full bottler/producer name AND address as printed.\n" +
   "  - Often prefixed by: 'Imported by', 'Bottled by', 'Distilled by', 'Distributed by', 'Produced by'.\n" +
@@ -63,9 +72,20 @@ export const extractionPrompt =
   "TYPOGRAPHY RULES\n" +
   "- Only governmentWarning may include typography metadata.\n" +
   "- Include isBold and isAllCaps ONLY for the \"GOVERNMENT WARNING\" header text.\n" +
+  "- Include isBodyBold for the warning text AFTER the header (true if that text is bold).\n" +
   "- Determine typography strictly from the image.\n" +
   "- Do NOT infer or guess typography for any other fields.\n\n" +
 
+  "CONFIDENCE RULES\n" +
+  "- Every text field object includes a confidence value from 0 to 1.\n" +
+  "- Use 1 only when every character is clearly legible; lower it for glare, blur, small print, curvature, or guessed characters.\n" +
+  "- Report confidence honestly; it does NOT change what you transcribe.\n\n" +
+
+  "LOCATION RULES\n" +
+  "- Every text field object includes a boundingBox around the printed text: { x, y, width, height }.\n" +
+  "- Values are fractions of the full image (0 to 1), measured from the TOP-LEFT corner.\n" +
+  "- The box may be approximate but must cover all of the transcribed text; use null if you cannot locate it.\n\n" +
+
   "CONTENT RULES\n" +
   "- brandName must NOT include addresses or locations.\n" +
   "- bottlerProducer MUST include address/location if present.\n" +
@@ -110,6 +130,9 @@ export const evaluationInstructions =
   "For bottler/product as long as most of the name and address are present then it is valid." +
   "The Government warning has to exactly match a standard form." +
   "If the expected value is null or empty, return 1 for that field.\n\n" +
-  "Return ONLY a JSON object with these keys: " +
+  "Return ONLY a JSON object with two keys, fields and reasons, each keyed by: " +
   "brandName, classType, alcoholContent, netContents, governmentWarning, " +
-  "bottlerProducer, countryOfOrigin, additivesDisclosed.\n\n";
+  "bottlerProducer, countryOfOrigin, additivesDisclosed.\n" +
+  "fields holds the 0/1 scores. reasons holds one short sentence per field that cites the " +
+  "values you compared, e.g. \"ABV 40% on label vs 45% expected\" or " +
+  "\"warning missing '(2)' clause\". Use null as the reason when the expected value is null or empty.\n\n";
@@ -0,0 +1,192 @@
+import OpenAI from "openai";
+import type { ResponseInputMessageContentList } from "openai/resources/responses/responses";
+import { zodTextFormat } from "openai/helpers/zod";
+import { fieldEvaluationSchema, extractedAlcoholLabelSchema } from "@/lib/schemas";
+import type { ExtractedAlcoholLabel, FieldEvaluation } from "@/lib/schemas";
+import {
+  evaluationInstructions,
+  extractionPrompt,
+  systemPrompt,
+} from "@/lib/extraction/prompts";
+import { isRateLimitError } from "@/lib/extraction/utils";
+import type {
+  LabelModelProvider,
+  LoggerFns,
+  OpenAIConfig,
+} from "@/lib/extraction/types";
+
+const RATE_LIMIT_RETRIES = 4;
+const RATE_LIMIT_INITIAL_DELAY_MS = 2000;
+const RATE_LIMIT_MAX_DELAY_MS = 15000;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function callWithModelFallback<T>(
+  deployments: string[],
+  log: LoggerFns["log"],
+  label: string,
+  runner: (deployment: string) => Promise<T>
+): Promise<T> {
+  let attempt = 0;
+  let delayMs = RATE_LIMIT_INITIAL_DELAY_MS;
+
+  while (attempt <= RATE_LIMIT_RETRIES) {
+    let sawRateLimit = false;
+    for (const deployment of deployments) {
+      try {
+        if (deployment !== deployments[0]) {
+          log(`[extract-label] ${label} trying fallback model ${deployment}`);
+        }
+        return await runner(deployment);
+      } catch (error) {
+        if (isRateLimitError(error)) {
+          sawRateLimit = true;
+          log(`[extract-label] ${label} rate limited on ${deployment}`);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (!sawRateLimit || attempt === RATE_LIMIT_RETRIES) {
+      break;
+    }
+
+    log(
+      `[extract-label] ${label} rate limited on all models, waiting ${delayMs}ms before retry`
+    );
+    await sleep(delayMs);
+    attempt += 1;
+    delayMs = Math.min(delayMs * 2, RATE_LIMIT_MAX_DELAY_MS);
+  }
+
+  const waitError = new Error(
+    "All models are at capacity. Please wait and try again."
+  );
+  (waitError as { status?: number }).status = 429;
+  throw waitError;
+}
+
+/**
+ * Builds a provider backed by Azure OpenAI deployments using the Responses API.
+ * Deployments are tried in order when one is rate limited.
+ */
+export function createAzureOpenAIProvider(
+  config: OpenAIConfig
+): LabelModelProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.endpoint,
+  });
+  const { deployments } = config;
+
+  return {
+    name: "azure-openai",
+
+    async extract({ imageUrl, attempt }, log) {
+      const start = performance.now();
+      const attemptLabel = `attempt ${attempt}`;
+      // Send both instruction text and the image URL to the model.
+      const content: ResponseInputMessageContentList = [
+        { type: "input_text", text: extractionPrompt },
+      ];
+      content.push({ type: "input_image", image_url: imageUrl, detail: "high" });
+
+      const parseLabel = (deployment: string) =>
+        client.responses.parse({
+          model: deployment,
+          input: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content },
+          ],
+          text: { format: zodTextFormat(extractedAlcoholLabelSchema, "label") },
+        });
+
+      // Parse directly into the expected schema so downstream code can trust types.
+      const response = await callWithModelFallback(
+        deployments,
+        log,
+        attemptLabel,
+        async (deployment) => {
+          try {
+            return await parseLabel(deployment);
+          } catch (error: any) {
+            const code =
+              error?.code ??
+              error?.error?.code ??
+              error?.error?.type ??
+              error?.type ??
+              "";
+            if (code === "content_policy_violation") {
+              log(
+                `[extract-label] ${attemptLabel} content policy violation, retrying once`
+              );
+              await sleep(300);
+              return await parseLabel(deployment);
+            }
+            throw error;
+          }
+        }
+      );
+
+      const durationMs = Math.round(performance.now() - start);
+      log(`[extract-label] ${attemptLabel} openai call duration (ms):`, durationMs);
+
+      if (response.usage) {
+        log(`[extract-label] ${attemptLabel} token usage:`, {
+          input_tokens: response.usage.input_tokens,
+          output_tokens: response.usage.output_tokens,
+          total_tokens: response.usage.total_tokens,
+        });
+      } else {
+        log(`[extract-label] ${attemptLabel} token usage not returned`);
+      }
+
+      log(`[extract-label] ${attemptLabel} raw output text`, response.output_text);
+      log(`[extract-label] ${attemptLabel} parsed output`, response.output_parsed);
+
+      return response.output_parsed
+        ? (response.output_parsed as ExtractedAlcoholLabel)
+        : null;
+    },
+
+    async evaluate({ expected, extracted }, log) {
+      const evalResponse = await callWithModelFallback(
+        deployments,
+        log,
+        "evaluation",
+        (deployment) =>
+          client.responses.parse({
+            model: deployment,
+            input: [
+              {
+                role: "system",
+                content:
+                  "Compare expected vs extracted label data and decide if the extraction is accurate. Allow differences in wording or formattting.",
+              },
+              {
+                role: "user",
+                content: [
+                  {
+                    type: "input_text",
+                    text:
+                      evaluationInstructions +
+                      "Expected:\n" +
+                      JSON.stringify(expected) +
+                      "\n\nExtracted:\n" +
+                      JSON.stringify(extracted),
+                  },
+                ],
+              },
+            ],
+            text: { format: zodTextFormat(fieldEvaluationSchema, "evaluation") },
+          })
+      );
+
+      return evalResponse.output_parsed
+        ? (evalResponse.output_parsed as FieldEvaluation)
+        : null;
+    },
+  };
+}
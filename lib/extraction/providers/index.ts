@@ -0,0 +1,22 @@
+import { createAzureOpenAIProvider } from "@/lib/extraction/providers/azure-openai";
+import { createLocalProvider } from "@/lib/extraction/providers/local";
+import type {
+  LabelModelProvider,
+  ModelProviderConfig,
+} from "@/lib/extraction/types";
+
+/**
+ * Instantiates the model provider selected by the validated config.
+ */
+export function createLabelModelProvider(
+  config: ModelProviderConfig
+): LabelModelProvider {
+  switch (config.provider) {
+    case "azure-openai":
+      return createAzureOpenAIProvider(config);
+    case "local":
+      return createLocalProvider(config);
+  }
+}
+
+export { createAzureOpenAIProvider, createLocalProvider };
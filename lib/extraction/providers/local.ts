@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { fieldEvaluationSchema, extractedAlcoholLabelSchema } from "@/lib/schemas";
+import type {
+  LabelModelProvider,
+  LocalModelConfig,
+  LoggerFns,
+} from "@/lib/extraction/types";
+
+// Fixture used when no image-specific response exists.
+const DEFAULT_FIXTURE = "default";
+
+/**
+ * Derives lookup keys for a request: the image name without extension,
+ * then a hash of the encoded image, then the shared default.
+ */
+function getFixtureKeys(imageName: string | undefined, imageUrl?: string): string[] {
+  const keys: string[] = [];
+  if (imageName) {
+    keys.push(path.parse(path.basename(imageName)).name);
+  }
+  if (imageUrl) {
+    keys.push(createHash("sha256").update(imageUrl).digest("hex").slice(0, 16));
+  }
+  keys.push(DEFAULT_FIXTURE);
+  return keys;
+}
+
+/**
+ * Reads the first fixture that exists for the given keys. Returns null when
+ * none exist so callers can treat it like an empty model response.
+ */
+async function readFixture(
+  dir: string,
+  keys: string[],
+  log: LoggerFns["log"]
+): Promise<unknown> {
+  for (const key of keys) {
+    const filePath = path.join(dir, `${key}.json`);
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+        continue;
+      }
+      throw error;
+    }
+    log(`[extract-label] local provider using fixture ${filePath}`);
+    return JSON.parse(raw);
+  }
+  log(`[extract-label] local provider found no fixture in ${dir}`);
+  return null;
+}
+
+/**
+ * Arrays let a fixture vary between passes; attempts wrap around the list.
+ */
+function pickAttempt(fixture: unknown, attempt: number): unknown {
+  if (!Array.isArray(fixture)) return fixture;
+  if (fixture.length === 0) return null;
+  return fixture[(attempt - 1) % fixture.length];
+}
+
+/**
+ * Builds a deterministic provider that replays canned model responses from disk.
+ * Layout: <fixturesDir>/extract/<key>.json and <fixturesDir>/evaluate/<key>.json.
+ */
+export function createLocalProvider(config: LocalModelConfig): LabelModelProvider {
+  const rootDir = path.resolve(process.cwd(), config.fixturesDir);
+
+  return {
+    name: "local",
+
+    async extract({ imageUrl, imageName, attempt }, log) {
+      const fixture = await readFixture(
+        path.join(rootDir, "extract"),
+        getFixtureKeys(imageName, imageUrl),
+        log
+      );
+      const parsed = extractedAlcoholLabelSchema.safeParse(
+        pickAttempt(fixture, attempt)
+      );
+      if (!parsed.success) {
+        log(
+          `[extract-label] attempt ${attempt} local fixture failed validation`,
+          parsed.error.issues
+        );
+        return null;
+      }
+      return parsed.data;
+    },
+
+    async evaluate({ imageName }, log) {
+      const fixture = await readFixture(
+        path.join(rootDir, "evaluate"),
+        getFixtureKeys(imageName),
+        log
+      );
+      const parsed = fieldEvaluationSchema.safeParse(fixture);
+      if (!parsed.success) {
+        log("[extract-label] local evaluation fixture failed validation");
+        return null;
+      }
+      return parsed.data;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { evaluateFieldWithRules } from "@/lib/extraction/rules-evaluator";
+import type { EvaluationFields } from "@/lib/extraction/types";
+
+const fields = (brandName: string): EvaluationFields => ({
+  brandName: brandName ? { text: brandName } : null,
+  classType: null,
+  alcoholContent: null,
+  netContents: null,
+  governmentWarning: null,
+  bottlerProducer: null,
+  countryOfOrigin: null,
+  additivesDisclosed: null,
+});
+
+const brand = (expected: string, extracted: string) =>
+  evaluateFieldWithRules("brandName", fields(expected), fields(extracted));
+
+describe("brand comparison", () => {
+  it("matches the same name regardless of case and punctuation", () => {
+    expect(brand("Maker's Mark", "MAKERS MARK")).toMatchObject({ score: 1, decisive: true });
+  });
+
+  it("does not match a single letter inside another name", () => {
+    expect(brand("Makers Mark", "a")).toMatchObject({ score: 0, decisive: true });
+  });
+
+  it("does not match a word fragment", () => {
+    expect(brand("Stone's Throw", "One")).toMatchObject({ score: 0 });
+  });
+
+  it("leaves a short whole-word part of the expected name undecided", () => {
+    expect(brand("Old Tom Distillery", "Tom")).toMatchObject({ score: 0, decisive: false });
+  });
+
+  it("matches when the label adds a short word around the expected name", () => {
+    expect(brand("Old Tom", "Old Tom Gin")).toMatchObject({ score: 1, decisive: true });
+  });
+
+  it("leaves a long label text containing the expected name to the model", () => {
+    expect(brand("Tom", "Old Tom Distillery Reserve")).toMatchObject({
+      score: 1,
+      decisive: false,
+    });
+  });
+
+  it("fails when the brand is missing", () => {
+    expect(brand("Old Tom", "")).toMatchObject({ score: 0, decisive: true });
+  });
+});
@@ -0,0 +1,287 @@
+// Deterministic field evaluator: scores expected vs extracted values with
+// parsing, string similarity and domain rules instead of a model call.
+// Each decision says whether the rule was conclusive so hybrid evaluation can
+// defer the rest to the model.
+
+import type {
+  AdditiveDisclosure,
+  FieldAccuracy,
+  FieldEvaluation,
+  FieldReasons,
+} from "@/lib/schemas";
+import type { EvaluationFields } from "@/lib/extraction/types";
+import { FIELD_KEYS, getTextValue, parseAbv } from "@/lib/extraction/heuristics";
+import type { FieldKey } from "@/lib/extraction/heuristics";
+import { compareClassTypes, describeClassTypeComparison } from "@/lib/classTypes";
+import { formatMl, parseNetContents, volumesMatch } from "@/lib/netContents";
+import { normalizeCountry } from "@/lib/countries";
+import {
+  levenshteinDistance,
+  normalizeForSimilarity,
+  similarityRatio,
+} from "@/lib/textSimilarity";
+
+export type RuleDecision = {
+  score: 0 | 1;
+  // False when the rule only has a best guess and a model should decide.
+  decisive: boolean;
+  // Short explanation citing the compared values.
+  reason: string;
+};
+
+// Similarity at or above this is a match; below the floor is a mismatch.
+const MATCH_RATIO = 0.85;
+const MISMATCH_RATIO = 0.5;
+// A name found inside the other as whole words only decides a match when it
+// is at least this share of the longer text, so "Tom" does not settle
+// "Old Tom Distillery".
+const CONTAINED_MIN_SHARE = 0.6;
+// Share of expected bottler tokens that must appear on the label.
+const BOTTLER_MATCH_SHARE = 0.75;
+const BOTTLER_MISMATCH_SHARE = 0.4;
+// Allowed difference between ABV numbers once parsed.
+const ABV_EPSILON = 0.05;
+
+// Clause markers every standard government warning contains.
+const WARNING_CLAUSES = ["GOVERNMENT WARNING", "(1)", "(2)"];
+
+const decided = (matched: boolean, reason: string): RuleDecision => ({
+  score: matched ? 1 : 0,
+  decisive: true,
+  reason,
+});
+
+const undecided = (bestGuess: boolean, reason: string): RuleDecision => ({
+  score: bestGuess ? 1 : 0,
+  decisive: false,
+  reason,
+});
+
+const formatNumber = (value: number) => String(Math.round(value * 10) / 10);
+
+function compareText(label: string, expected: string, extracted: string): RuleDecision {
+  const normalizedExpected = normalizeForSimilarity(expected);
+  const normalizedExtracted = normalizeForSimilarity(extracted);
+  if (!normalizedExtracted) return decided(false, `${label} not found on label`);
+  if (normalizedExtracted === normalizedExpected) {
+    return decided(true, `${label} "${extracted}" matches expected "${expected}"`);
+  }
+  const extractedLonger = normalizedExtracted.length > normalizedExpected.length;
+  const [shorter, longer] = extractedLonger
+    ? [normalizedExpected, normalizedExtracted]
+    : [normalizedExtracted, normalizedExpected];
+  if (` ${longer} `.includes(` ${shorter} `)) {
+    if (shorter.length / longer.length >= CONTAINED_MIN_SHARE) {
+      return decided(true, `${label} "${extracted}" matches expected "${expected}"`);
+    }
+    // Extra words on the label are likely surrounding text; a label value
+    // that is only part of the expected one may be truncated or wrong.
+    return undecided(
+      extractedLonger,
+      `${label} "${extracted}" on label only partly matches "${expected}" expected`
+    );
+  }
+  const ratio = similarityRatio(normalizedExtracted, normalizedExpected);
+  const mismatch = `${label} "${extracted}" on label vs "${expected}" expected`;
+  if (ratio >= MATCH_RATIO) {
+    return decided(true, `${label} "${extracted}" closely matches expected "${expected}"`);
+  }
+  if (ratio < MISMATCH_RATIO) return decided(false, mismatch);
+  return undecided(ratio >= (MATCH_RATIO + MISMATCH_RATIO) / 2, mismatch);
+}
+
+function compareClassType(expected: string, extracted: string): RuleDecision {
+  const comparison = compareClassTypes(expected, extracted);
+  const reason = describeClassTypeComparison(comparison);
+  switch (comparison.match) {
+    case "exact":
+    case "specialization":
+      return decided(true, reason);
+    case "wrong_category":
+      return decided(false, reason);
+    case "generalization":
+    case "related":
+      return undecided(false, reason);
+  }
+
+  const decision = compareText("Class/type", expected, extracted);
+  // A low similarity can still be the same category ("Whisky" vs "Bourbon").
+  return decision.score === 0 && normalizeForSimilarity(extracted)
+    ? undecided(false, decision.reason)
+    : decision;
+}
+
+function compareAbv(expected: string, extracted: string): RuleDecision {
+  if (!extracted.trim()) return decided(false, "ABV not found on label");
+  const expectedAbv = parseAbv(expected);
+  const extractedAbv = parseAbv(extracted);
+  if (expectedAbv === null || extractedAbv === null) {
+    return undecided(
+      normalizeForSimilarity(expected) === normalizeForSimilarity(extracted),
+      `ABV "${extracted}" on label could not be compared with "${expected}"`
+    );
+  }
+  const matched = Math.abs(expectedAbv - extractedAbv) <= ABV_EPSILON;
+  return decided(
+    matched,
+    matched
+      ? `ABV ${formatNumber(extractedAbv)}% matches expected`
+      : `ABV ${formatNumber(extractedAbv)}% on label vs ${formatNumber(expectedAbv)}% expected`
+  );
+}
+
+function compareNetContents(expected: string, extracted: string): RuleDecision {
+  if (!extracted.trim()) return decided(false, "Net contents not found on label");
+  const expectedMl = parseNetContents(expected);
+  const extractedMl = parseNetContents(extracted);
+  if (expectedMl === null || extractedMl === null) {
+    return undecided(
+      normalizeForSimilarity(expected) === normalizeForSimilarity(extracted),
+      `Net contents "${extracted}" on label could not be compared with "${expected}"`
+    );
+  }
+  const matched = volumesMatch(expectedMl, extractedMl);
+  return decided(
+    matched,
+    matched
+      ? `Net contents ${formatMl(extractedMl)} matches expected`
+      : `Net contents ${formatMl(extractedMl)} on label vs ${formatMl(expectedMl)} expected`
+  );
+}
+
+function compareGovernmentWarning(expected: string, extracted: string): RuleDecision {
+  const normalizedExpected = normalizeForSimilarity(expected);
+  const normalizedExtracted = normalizeForSimilarity(extracted);
+  if (!normalizedExtracted) return decided(false, "Government warning not found on label");
+  if (normalizedExtracted.includes(normalizedExpected)) {
+    return decided(true, "Government warning matches the expected text");
+  }
+  // Allow a single OCR character slip; any wording change fails.
+  if (levenshteinDistance(normalizedExtracted, normalizedExpected) <= 1) {
+    return decided(true, "Government warning matches apart from a single character");
+  }
+  const missingClause = WARNING_CLAUSES.find(
+    (clause) =>
+      expected.toUpperCase().includes(clause) && !extracted.toUpperCase().includes(clause)
+  );
+  return decided(
+    false,
+    missingClause
+      ? `Warning missing '${missingClause}' clause`
+      : "Warning wording differs from the expected text"
+  );
+}
+
+function compareBottler(expected: string, extracted: string): RuleDecision {
+  const expectedTokens = normalizeForSimilarity(expected).split(" ").filter(Boolean);
+  const extractedTokens = new Set(
+    normalizeForSimilarity(extracted).split(" ").filter(Boolean)
+  );
+  if (extractedTokens.size === 0) return decided(false, "Bottler/producer not found on label");
+  if (expectedTokens.length === 0) return decided(true, "No bottler/producer expected");
+  const found = expectedTokens.filter((token) => extractedTokens.has(token)).length;
+  const share = found / expectedTokens.length;
+  const reason = `Bottler/producer has ${found} of ${expectedTokens.length} expected words`;
+  if (share >= BOTTLER_MATCH_SHARE) return decided(true, reason);
+  if (share <= BOTTLER_MISMATCH_SHARE) return decided(false, reason);
+  return undecided(share >= (BOTTLER_MATCH_SHARE + BOTTLER_MISMATCH_SHARE) / 2, reason);
+}
+
+function compareCountry(expected: string, extracted: string): RuleDecision {
+  const expectedCountry = normalizeCountry(expected);
+  const extractedCountry = normalizeCountry(extracted);
+  if (expectedCountry && extractedCountry) {
+    return decided(
+      expectedCountry === extractedCountry,
+      expectedCountry === extractedCountry
+        ? `Country matches (${extractedCountry})`
+        : `Country "${extractedCountry}" on label vs "${expectedCountry}" expected`
+    );
+  }
+  const decision = compareText("Country", expected, extracted);
+  // Countries outside the lookup table need a model to confirm.
+  return decision.score === 0 && normalizeForSimilarity(extracted)
+    ? undecided(false, decision.reason)
+    : decision;
+}
+
+function compareAdditives(
+  expected: AdditiveDisclosure,
+  extracted: AdditiveDisclosure | null
+): RuleDecision {
+  const required = (Object.keys(expected) as Array<keyof AdditiveDisclosure>).filter(
+    (key) => expected[key]
+  );
+  const missing = required.filter((key) => !extracted?.[key]);
+  return decided(
+    missing.length === 0,
+    missing.length === 0
+      ? "All required additive disclosures found"
+      : `Additive disclosure missing: ${missing.join(", ")}`
+  );
+}
+
+/**
+ * Scores one field. Missing expected values pass, matching the model evaluator.
+ */
+export function evaluateFieldWithRules(
+  key: FieldKey,
+  expected: EvaluationFields,
+  extracted: EvaluationFields
+): RuleDecision {
+  if (key === "additivesDisclosed") {
+    return expected.additivesDisclosed
+      ? compareAdditives(expected.additivesDisclosed, extracted.additivesDisclosed)
+      : decided(true, "No additive disclosures expected");
+  }
+
+  const expectedText = getTextValue(expected[key]);
+  const extractedText = getTextValue(extracted[key]);
+  if (!expectedText.trim()) return decided(true, "No expected value to compare");
+
+  switch (key) {
+    case "brandName":
+      return compareText("Brand", expectedText, extractedText);
+    case "classType":
+      return compareClassType(expectedText, extractedText);
+    case "alcoholContent":
+      return compareAbv(expectedText, extractedText);
+    case "netContents":
+      return compareNetContents(expectedText, extractedText);
+    case "governmentWarning":
+      return compareGovernmentWarning(expectedText, extractedText);
+    case "bottlerProducer":
+      return compareBottler(expectedText, extractedText);
+    case "countryOfOrigin":
+      return compareCountry(expectedText, extractedText);
+  }
+}
+
+/**
+ * Scores every field with local rules.
+ */
+export function evaluateWithRules(
+  expected: EvaluationFields,
+  extracted: EvaluationFields
+): Record<FieldKey, RuleDecision> {
+  const decisions = {} as Record<FieldKey, RuleDecision>;
+  FIELD_KEYS.forEach((key) => {
+    decisions[key] = evaluateFieldWithRules(key, expected, extracted);
+  });
+  return decisions;
+}
+
+/**
+ * Collapses rule decisions into scores and reasons using best guesses.
+ */
+export function toFieldEvaluation(
+  decisions: Record<FieldKey, RuleDecision>
+): FieldEvaluation {
+  const fields = {} as FieldAccuracy;
+  const reasons = {} as FieldReasons;
+  FIELD_KEYS.forEach((key) => {
+    fields[key] = decisions[key].score;
+    reasons[key] = decisions[key].reason;
+  });
+  return { fields, reasons };
+}
@@ -2,7 +2,11 @@ import type {
   AccuracyDecision,
   ExtractedAlcoholLabel,
   ExpectedAlcoholLabel,
+  FieldEvaluation,
+  ImageQualityReport,
+  LabelPanel,
 } from "@/lib/schemas";
+import type { ExtractedFieldKey } from "@/lib/extraction/heuristics";
 
 export type Logger = {
   log: (...args: unknown[]) => void;
@@ -14,12 +18,33 @@ export type ExtractLabelError = {
   ok: false;
   status: number;
   error: string;
+  // Set when the image quality pre-check rejected the upload.
+  quality?: ImageQualityReport[];
 };
 
+// How many extraction passes agreed with the merged value of each field.
+export type PassAgreement = {
+  passes: number;
+  fields: Record<ExtractedFieldKey, number>;
+};
+
+// Name of the panel each field was read from, for labels submitted as
+// several images.
+export type FieldPanels = Partial<Record<ExtractedFieldKey, string>>;
+
 export type ExtractLabelSuccess = {
   ok: true;
   label: ExtractedAlcoholLabel;
   evaluation: AccuracyDecision | null;
+  agreement: PassAgreement;
+  fieldPanels?: FieldPanels;
+  quality?: ImageQualityReport[];
+  // The first image as sent to the model when geometry correction changed
+  // it; bounding boxes are fractions of this image, not of the upload.
+  correctedImage?: string;
+  // The first image as sent to the model when it was rasterized from a PDF,
+  // which browsers cannot preview.
+  pageImage?: string;
 };
 
 export type ExtractLabelResult = ExtractLabelError | ExtractLabelSuccess;
@@ -34,6 +59,64 @@ export type OpenAIConfig = {
   deployments: string[];
 };
 
+export type LocalModelConfig = {
+  fixturesDir: string;
+};
+
+// Selected via LABEL_MODEL_PROVIDER; defaults to Azure OpenAI.
+export type ModelProviderConfig =
+  | ({ provider: "azure-openai" } & OpenAIConfig)
+  | ({ provider: "local" } & LocalModelConfig);
+
+// How candidates are scored: model only, local rules only, or rules first
+// with the model deciding only the fields the rules cannot.
+export type EvaluationMode = "llm" | "rules" | "hybrid";
+
+// Per-request pipeline settings resolved from the request and environment.
+export type PipelineSettings = {
+  passCount: number;
+  evaluationMode: EvaluationMode;
+  imageLabel?: string;
+};
+
+export type ExtractionRequest = {
+  imageUrl: string;
+  imageName?: string;
+  attempt: number;
+};
+
+// Field subset sent to the evaluator for both expected and extracted sides.
+export type EvaluationFields = Pick<
+  ExtractedAlcoholLabel,
+  | "brandName"
+  | "classType"
+  | "alcoholContent"
+  | "netContents"
+  | "governmentWarning"
+  | "bottlerProducer"
+  | "countryOfOrigin"
+  | "additivesDisclosed"
+>;
+
+export type EvaluationRequest = {
+  expected: EvaluationFields;
+  extracted: EvaluationFields;
+  imageName?: string;
+};
+
+// A vision/language model backend that can read a label and score an extraction.
+export type LabelModelProvider = {
+  name: string;
+  extract: (
+    request: ExtractionRequest,
+    log: LoggerFns["log"]
+  ) => Promise<ExtractedAlcoholLabel | null>;
+  evaluate: (
+    request: EvaluationRequest,
+    log: LoggerFns["log"]
+  ) => Promise<FieldEvaluation | null>;
+};
+
 export type ExtractionCandidate = {
   extracted: ExtractedAlcoholLabel;
   evaluation: AccuracyDecision | null;
@@ -43,6 +126,13 @@ export type ExtractionCandidate = {
 // Minimal form-data shape for both Next and Azure Functions.
 export type FormDataLike = {
   get: (name: string) => unknown;
+  getAll?: (name: string) => unknown[];
+};
+
+// One encoded image of a label and the panel it shows.
+export type LabelPanelImage = {
+  panel: LabelPanel;
+  imageUrl: string;
 };
 
 // Minimal file/blob shape needed to read image bytes.
@@ -1,17 +1,81 @@
-import { expectedAlcoholLabelSchema } from "@/lib/schemas";
-import type { ExpectedAlcoholLabel } from "@/lib/schemas";
+import {
+  expectedAlcoholLabelSchema,
+  labelPanelRoleSchema,
+  MAX_LABEL_PANELS,
+} from "@/lib/schemas";
+import type { ExpectedAlcoholLabel, LabelPanelRole } from "@/lib/schemas";
 import type {
   BlobLike,
   FormDataLike,
   Logger,
+  EvaluationMode,
   LoggerFns,
-  OpenAIConfig,
+  ModelProviderConfig,
   StepResult,
 } from "@/lib/extraction/types";
+import { isPdf, rasterizePdf } from "@/lib/extraction/pdf-service";
+
+export { getPageName } from "@/lib/pdfPages";
 
 // Fallback when a file has no MIME type.
 const DEFAULT_MIME_TYPE = "image/jpeg";
 
+// Extraction passes per label when neither the request nor EXTRACTION_PASSES sets one.
+export const DEFAULT_EXTRACTION_PASSES = 2;
+export const MAX_EXTRACTION_PASSES = 7;
+
+export const DEFAULT_EVALUATION_MODE: EvaluationMode = "llm";
+const EVALUATION_MODES: EvaluationMode[] = ["llm", "rules", "hybrid"];
+
+// Default location of canned model responses for the local provider.
+const DEFAULT_FIXTURES_DIR = "fixtures/label-model";
+
+/**
+ * Returns true when a provider error indicates throttling or exhausted quota.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const anyError = error as {
+    status?: number;
+    code?: string;
+    type?: string;
+    message?: string;
+    error?: { status?: number; code?: string; type?: string; message?: string };
+  };
+  const status = anyError?.status ?? anyError?.error?.status;
+  const code = anyError?.code ?? anyError?.error?.code ?? anyError?.type ?? anyError?.error?.type;
+  const message = anyError?.message ?? anyError?.error?.message ?? "";
+  return (
+    status === 429 ||
+    code === "rate_limit_exceeded" ||
+    code === "too_many_requests" ||
+    code === "insufficient_quota" ||
+    /rate limit/i.test(message)
+  );
+}
+
+/**
+ * Reads an HTTP status from a provider error, falling back when absent.
+ */
+export function getErrorStatus(error: unknown, fallback: number): number {
+  const anyError = error as { status?: number; error?: { status?: number } };
+  const status = anyError?.status ?? anyError?.error?.status;
+  if (typeof status === "number") {
+    return status;
+  }
+  return isRateLimitError(error) ? 429 : fallback;
+}
+
+/**
+ * Reads a human-readable message from a provider error.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  const anyError = error as { error?: { message?: string } };
+  return anyError?.error?.message ?? fallback;
+}
+
 // Type guard that works for browser File and undici File/Blob.
 /**
  * Type guard for values that behave like a Blob/File (have arrayBuffer).
@@ -38,11 +102,34 @@ export function resolveLogger(logger?: Logger): LoggerFns {
   };
 }
 
-// Validate required Azure OpenAI configuration.
+// Validate required model provider configuration.
 /**
- * Validates that the Azure OpenAI config is present in environment variables.
+ * Validates the model provider config from environment variables.
+ * LABEL_MODEL_PROVIDER=local reads canned responses from LABEL_MODEL_FIXTURES_DIR;
+ * anything else requires the Azure OpenAI variables.
  */
-export function validateConfig(): StepResult<OpenAIConfig> {
+export function validateConfig(): StepResult<ModelProviderConfig> {
+  const provider = (process.env.LABEL_MODEL_PROVIDER ?? "azure-openai")
+    .trim()
+    .toLowerCase();
+
+  if (provider === "local") {
+    const fixturesDir =
+      process.env.LABEL_MODEL_FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR;
+    return { ok: true, value: { provider: "local", fixturesDir } };
+  }
+
+  if (provider !== "azure-openai") {
+    return {
+      ok: false,
+      error: {
+        ok: false,
+        status: 500,
+        error: `Unknown model provider "${provider}"`,
+      },
+    };
+  }
+
   const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
   const apiKey = process.env.AZURE_OPENAI_API_KEY;
   const deployment = process.env.AZURE_OPENAI_DEPLOYMENT;
@@ -63,32 +150,203 @@ export function validateConfig(): StepResult<OpenAIConfig> {
     };
   }
 
-  return { ok: true, value: { endpoint, apiKey, deployments } };
+  return {
+    ok: true,
+    value: { provider: "azure-openai", endpoint, apiKey, deployments },
+  };
+}
+
+/**
+ * Parses a pass count from a request value or env string; null when invalid.
+ */
+function parsePassCount(value: unknown): number | null {
+  const parsed =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim().length > 0
+        ? Number(value)
+        : Number.NaN;
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_EXTRACTION_PASSES) {
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * Resolves how many extraction passes to run. A valid per-request value wins,
+ * then EXTRACTION_PASSES, then the default.
+ */
+export function resolvePassCount(
+  requested: unknown,
+  warn: LoggerFns["warn"]
+): number {
+  if (requested !== null && requested !== undefined) {
+    const fromRequest = parsePassCount(requested);
+    if (fromRequest !== null) {
+      return fromRequest;
+    }
+    warn(
+      `[extract-label] ignoring invalid pass count; expected 1-${MAX_EXTRACTION_PASSES}`,
+      requested
+    );
+  }
+
+  const fromEnv = parsePassCount(process.env.EXTRACTION_PASSES);
+  return fromEnv ?? DEFAULT_EXTRACTION_PASSES;
+}
+
+function parseEvaluationMode(value: unknown): EvaluationMode | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toLowerCase();
+  return EVALUATION_MODES.find((mode) => mode === normalized) ?? null;
 }
 
-// Pull the image file out of multipart form data.
 /**
- * Extracts the required image blob from multipart form data.
+ * Resolves which evaluator scores candidates. A valid per-request value wins,
+ * then EVALUATION_MODE, then the default.
  */
-export function getImageFromFormData(formData: FormDataLike): StepResult<BlobLike> {
-  const image = formData.get("image");
-  if (!isBlobLike(image)) {
+export function resolveEvaluationMode(
+  requested: unknown,
+  warn: LoggerFns["warn"]
+): EvaluationMode {
+  if (requested !== null && requested !== undefined) {
+    const fromRequest = parseEvaluationMode(requested);
+    if (fromRequest) {
+      return fromRequest;
+    }
+    warn(
+      `[extract-label] ignoring invalid evaluator; expected ${EVALUATION_MODES.join(", ")}`,
+      requested
+    );
+  }
+
+  return parseEvaluationMode(process.env.EVALUATION_MODE) ?? DEFAULT_EVALUATION_MODE;
+}
+
+function parseFlag(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toLowerCase();
+  if (["true", "1", "on", "yes"].includes(normalized)) return true;
+  if (["false", "0", "off", "no"].includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * Resolves whether label geometry correction (deskew, crop, perspective)
+ * runs before the image is resized. A valid per-request value wins, then
+ * CORRECT_LABEL_GEOMETRY, then off.
+ */
+export function resolveGeometryCorrection(
+  requested: unknown,
+  warn: LoggerFns["warn"]
+): boolean {
+  if (requested !== null && requested !== undefined) {
+    const fromRequest = parseFlag(requested);
+    if (fromRequest !== null) {
+      return fromRequest;
+    }
+    warn("[extract-label] ignoring invalid correctGeometry; expected true or false", requested);
+  }
+
+  return parseFlag(process.env.CORRECT_LABEL_GEOMETRY) ?? false;
+}
+
+/**
+ * Parses a panel role (front, back, neck or side); null when missing or invalid.
+ */
+export function parsePanelRole(
+  value: unknown,
+  warn: LoggerFns["warn"]
+): LabelPanelRole | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const parsed = labelPanelRoleSchema.safeParse(
+    typeof value === "string" ? value.trim().toLowerCase() : value
+  );
+  if (parsed.success) {
+    return parsed.data;
+  }
+  warn(
+    `[extract-label] ignoring invalid panel role; expected ${labelPanelRoleSchema.options.join(", ")}`,
+    value
+  );
+  return null;
+}
+
+// Pull the image files out of multipart form data.
+/**
+ * Extracts the label images from multipart form data: one or more "image"
+ * files, each optionally paired with a "panelRole" entry in the same order.
+ */
+export function getPanelsFromFormData(
+  formData: FormDataLike,
+  warn: LoggerFns["warn"]
+): StepResult<Array<{ image: BlobLike; role: LabelPanelRole | null }>> {
+  const images = (formData.getAll ? formData.getAll("image") : [formData.get("image")])
+    .filter(isBlobLike);
+  if (images.length === 0) {
     return { ok: false, error: { ok: false, status: 400, error: "Image file is required" } };
   }
+  if (images.length > MAX_LABEL_PANELS) {
+    return {
+      ok: false,
+      error: {
+        ok: false,
+        status: 400,
+        error: `At most ${MAX_LABEL_PANELS} images can be submitted per label`,
+      },
+    };
+  }
 
-  return { ok: true, value: image };
+  const roles = formData.getAll ? formData.getAll("panelRole") : [formData.get("panelRole")];
+  return {
+    ok: true,
+    value: images.map((image, index) => ({
+      image,
+      role: parsePanelRole(roles[index], warn),
+    })),
+  };
 }
 
 // Load the image into a Buffer for processing.
 /**
- * Reads the image into memory and returns its bytes and MIME type.
+ * Reads the image into memory and returns its bytes and MIME type. A PDF
+ * proof is rasterized locally into one PNG per page, up to maxPages, each
+ * marked as a pdfPage.
  */
 export async function loadImageBytes(
-  image: BlobLike
-): Promise<StepResult<{ buffer: Buffer; mimeType: string }>> {
+  image: BlobLike,
+  logger: LoggerFns,
+  maxPages: number = MAX_LABEL_PANELS
+): Promise<StepResult<Array<{ buffer: Buffer; mimeType: string; pdfPage: boolean }>>> {
   const buffer = Buffer.from(await image.arrayBuffer());
   const mimeType = image.type && image.type.length > 0 ? image.type : DEFAULT_MIME_TYPE;
-  return { ok: true, value: { buffer, mimeType } };
+  if (!isPdf(buffer, mimeType)) {
+    return { ok: true, value: [{ buffer, mimeType, pdfPage: false }] };
+  }
+
+  const pagesResult = await rasterizePdf(buffer, maxPages, logger);
+  if (!pagesResult.ok) {
+    return pagesResult;
+  }
+  return {
+    ok: true,
+    value: pagesResult.value.map((page) => ({
+      buffer: page,
+      mimeType: "image/png",
+      pdfPage: true,
+    })),
+  };
+}
+
+/**
+ * Decodes a base64 data URL into bytes; null for any other URL.
+ */
+export function decodeDataUrl(url: string): Buffer | null {
+  const match = /^data:[^;,]*;base64,/.exec(url);
+  return match ? Buffer.from(url.slice(match[0].length), "base64") : null;
 }
 
 /**
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  findStandardOfFill,
+  formatMl,
+  getFillClass,
+  parseNetContents,
+  volumesMatch,
+} from "@/lib/netContents";
+
+describe("parseNetContents", () => {
+  it("converts units to milliliters", () => {
+    expect(parseNetContents("750 mL")).toBe(750);
+    expect(parseNetContents("75 cL")).toBe(750);
+    expect(parseNetContents("0.75 L")).toBe(750);
+    expect(parseNetContents("25.4 FL. OZ.")).toBeCloseTo(751.2, 1);
+  });
+
+  it("reads thousands separators and decimal commas", () => {
+    expect(parseNetContents("1,750 mL")).toBe(1750);
+    expect(parseNetContents("0,75 L")).toBe(750);
+    expect(parseNetContents("1,75 L")).toBe(1750);
+  });
+
+  it("returns null without a known unit", () => {
+    expect(parseNetContents("750")).toBeNull();
+    expect(parseNetContents("")).toBeNull();
+  });
+});
+
+describe("standards of fill", () => {
+  it("matches rounded fluid-ounce sizes within 1%", () => {
+    expect(volumesMatch(751.2, 750)).toBe(true);
+    expect(findStandardOfFill(751.2, "spirits")).toBe(750);
+  });
+
+  it("uses the size list for the product", () => {
+    expect(findStandardOfFill(1750, "spirits")).toBe(1750);
+    expect(findStandardOfFill(1750, "wine")).toBeNull();
+    expect(findStandardOfFill(2000, "wine")).toBeNull();
+    expect(findStandardOfFill(568, "wine")).toBe(568);
+  });
+
+  it("accepts whole liters for large wine containers", () => {
+    expect(findStandardOfFill(5000, "wine")).toBe(5000);
+    expect(findStandardOfFill(4500, "wine")).toBeNull();
+  });
+
+  it("has no sizes for malt beverages", () => {
+    expect(getFillClass("beer")).toBeNull();
+    expect(getFillClass("rum")).toBe("spirits");
+  });
+});
+
+describe("formatMl", () => {
+  it("switches to liters from 1000 mL", () => {
+    expect(formatMl(750)).toBe("750 mL");
+    expect(formatMl(1750)).toBe("1.75 L");
+  });
+});
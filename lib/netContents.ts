@@ -0,0 +1,98 @@
+// Net contents parsing, unit conversion and standards-of-fill checks.
+
+import type { ProductType } from "./schemas";
+
+export type FillClass = "spirits" | "wine";
+
+const ML_PER_UNIT: Array<{ pattern: RegExp; ml: number }> = [
+  { pattern: /^(ml|milliliters?|millilitres?)\b/, ml: 1 },
+  { pattern: /^(cl|centiliters?|centilitres?)\b/, ml: 10 },
+  { pattern: /^(l|liters?|litres?|ltr)\b/, ml: 1000 },
+  { pattern: /^(fl ?oz|fluid ounces?|oz|ounces?)\b/, ml: 29.5735 },
+];
+
+// Rounded label conversions (e.g. 25.4 FL OZ for 750 mL) stay within 1%.
+const VOLUME_MATCH_RATIO = 0.01;
+
+// 27 CFR 5.203 authorized sizes for distilled spirits, in mL.
+const SPIRITS_STANDARDS_OF_FILL = [
+  50, 100, 187, 200, 250, 331, 350, 355, 375, 475, 500, 570, 700, 710, 720, 750,
+  900, 945, 1000, 1500, 1750, 1800, 2000, 3000, 3750,
+];
+
+// 27 CFR 4.72 authorized sizes for wine, in mL. Larger containers must be
+// whole liters.
+const WINE_STANDARDS_OF_FILL = [
+  50, 100, 180, 187, 200, 250, 300, 330, 355, 360, 375, 475, 500, 550, 568, 600,
+  620, 700, 720, 750, 1000, 1500, 1800, 2250, 3000,
+];
+const WINE_LARGE_MIN_ML = 3000;
+
+/**
+ * Parses a volume such as "750 mL", "1,750 mL", "75 cL", "0.75 L" or
+ * "25.4 FL. OZ." into milliliters. Uses the first number/unit pair; null when
+ * no known unit follows.
+ */
+export function parseNetContents(text?: string | null): number | null {
+  if (!text) return null;
+  // Drop thousands separators so "1,750 mL" is not read as 750 mL; a
+  // remaining comma between digits is a decimal comma ("0,75 L").
+  const normalized = text
+    .replace(/(\d),(?=\d{3}(?!\d))/g, "$1")
+    .replace(/(\d),(?=\d)/g, "$1.");
+  const match = normalized.toLowerCase().match(/(\d*\.?\d+)\s*([a-z][a-z. ]*)/);
+  if (!match) return null;
+  const unit = match[2].replace(/\./g, "").replace(/\s+/g, " ").trim();
+  const factor = ML_PER_UNIT.find((entry) => entry.pattern.test(unit));
+  if (!factor) return null;
+  return Number.parseFloat(match[1]) * factor.ml;
+}
+
+/**
+ * Returns true when two volumes in milliliters are the same size.
+ */
+export function volumesMatch(firstMl: number, secondMl: number): boolean {
+  return Math.abs(firstMl - secondMl) / Math.max(firstMl, secondMl) <= VOLUME_MATCH_RATIO;
+}
+
+/**
+ * Formats milliliters for messages, e.g. 750 -> "750 mL", 1750 -> "1.75 L".
+ */
+export function formatMl(ml: number): string {
+  if (ml >= 1000) {
+    return `${Math.round(ml / 10) / 100} L`;
+  }
+  return `${Math.round(ml * 10) / 10} mL`;
+}
+
+/**
+ * Maps a product type to the standards of fill that apply; null when the
+ * product has none (malt beverages) or the type is unknown.
+ */
+export function getFillClass(productType: ProductType | null): FillClass | null {
+  switch (productType) {
+    case "wine":
+      return "wine";
+    case "whiskey":
+    case "rum":
+    case "other_spirits":
+      return "spirits";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the authorized size matching the parsed volume, or null when the
+ * volume is not an authorized standard of fill.
+ */
+export function findStandardOfFill(ml: number, fillClass: FillClass): number | null {
+  if (fillClass === "wine" && ml >= WINE_LARGE_MIN_ML) {
+    const wholeLiters = Math.round(ml / 1000) * 1000;
+    return volumesMatch(ml, wholeLiters) ? wholeLiters : null;
+  }
+  const sizes =
+    fillClass === "wine" ? WINE_STANDARDS_OF_FILL : SPIRITS_STANDARDS_OF_FILL;
+  // Fluid-ounce labels round, so sizes match with the same 1% slack.
+  return sizes.find((size) => volumesMatch(ml, size)) ?? null;
+}
@@ -5,12 +5,35 @@ import {
   ExtractedAlcoholLabel,
   ExpectedAlcoholLabel,
   GovernmentWarningField,
+  ImageQualityReport,
+  LabelPanelRole,
   SimpleField,
 } from "./schemas";
+import type { FieldPanels, PassAgreement } from "./extraction/types";
 
 type ExtractLabelResponse = {
   label: ExtractedAlcoholLabel;
   evaluation: AccuracyDecision | null;
+  agreement: PassAgreement | null;
+  // Set when the label was submitted as several panel images.
+  fieldPanels: FieldPanels | null;
+  // Local image quality pre-check, one report per image or PDF page.
+  quality: ImageQualityReport[] | null;
+  // First image after geometry correction; bounding boxes refer to it.
+  correctedImage: string | null;
+  // First image rasterized from a PDF, for previews.
+  pageImage: string | null;
+};
+
+// Per-request pipeline switches; unset ones use the server's default.
+export type ExtractLabelRequestOptions = {
+  correctGeometry?: boolean;
+};
+
+// One image of a label and the panel it shows, when known.
+export type LabelPanelFile = {
+  file: File;
+  role: LabelPanelRole | null;
 };
 
 function makeSimpleField(text: string): SimpleField {
@@ -108,14 +131,25 @@ const mockOCRData: Record<string, ExtractedAlcoholLabel> = {
 };
 
 async function requestStructuredLabelData(
-  imageFile: File,
-  expectedData?: ExpectedAlcoholLabel
+  panels: LabelPanelFile[],
+  labelName: string,
+  expectedData?: ExpectedAlcoholLabel,
+  options: ExtractLabelRequestOptions = {}
 ): Promise<ExtractLabelResponse> {
   const formData = new FormData();
-  formData.append("image", imageFile);
+  panels.forEach(({ file, role }) => {
+    formData.append("image", file);
+    formData.append("panelRole", role ?? "");
+  });
+  if (panels.length > 1) {
+    formData.append("labelName", labelName);
+  }
   if (expectedData) {
     formData.append("expected", JSON.stringify(expectedData));
   }
+  if (options.correctGeometry !== undefined) {
+    formData.append("correctGeometry", String(options.correctGeometry));
+  }
 
   const response = await fetch("/api/extract-label", {
     method: "POST",
@@ -149,9 +183,57 @@ async function requestStructuredLabelData(
   return {
     label: parsed.data,
     evaluation: data?.evaluation ?? null,
+    agreement: data?.agreement ?? null,
+    fieldPanels: data?.fieldPanels ?? null,
+    quality: data?.quality ?? null,
+    correctedImage: data?.correctedImage ?? null,
+    pageImage: data?.pageImage ?? null,
   };
 }
 
+/**
+ * Runs the server-side image quality pre-check on a selected file without
+ * extracting it. Returns null when the check is unavailable.
+ *
+ * @param file - The image or PDF to check
+ * @returns Promise<ImageQualityReport[] | null> - One report per image or PDF page
+ */
+export async function checkImageQuality(file: File): Promise<ImageQualityReport[] | null> {
+  const formData = new FormData();
+  formData.append("image", file);
+  try {
+    const response = await fetch("/api/image-quality", { method: "POST", body: formData });
+    if (!response.ok) {
+      return null;
+    }
+    const data = await response.json();
+    return Array.isArray(data?.reports) ? data.reports : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the server's default pipeline switches, so the upload page can start
+ * from them. Returns null when they are unavailable.
+ *
+ * @returns Promise<Required<ExtractLabelRequestOptions> | null> - The server defaults
+ */
+export async function fetchExtractionDefaults(): Promise<Required<ExtractLabelRequestOptions> | null> {
+  try {
+    const response = await fetch("/api/extract-label");
+    if (!response.ok) {
+      return null;
+    }
+    const data = await response.json();
+    return typeof data?.correctGeometry === "boolean"
+      ? { correctGeometry: data.correctGeometry }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 function getMockLabelData(imageName: string): ExtractedAlcoholLabel {
   const lowerName = imageName.toLowerCase();
   
@@ -180,42 +262,79 @@ function getMockLabelData(imageName: string): ExtractedAlcoholLabel {
  * 
  * @param imageFile - The image file to process
  * @param imageName - The name of the image file
+ * @param options - Pipeline switches such as geometry correction
  * @returns Promise<ExtractedAlcoholLabel> - Extracted label data
  */
 export async function extractLabelData(
   imageFile: File | null,
   imageName: string,
-  expectedData?: ExpectedAlcoholLabel
+  expectedData?: ExpectedAlcoholLabel,
+  options: ExtractLabelRequestOptions = {}
 ): Promise<ExtractLabelResponse> {
-  if (!imageFile) {
-    return { label: getMockLabelData(imageName), evaluation: null };
+  return extractLabelPanelData(
+    imageFile ? [{ file: imageFile, role: null }] : [],
+    imageName,
+    expectedData,
+    options
+  );
+}
+
+/**
+ * Extract alcohol label data from one or more panel images of the same label
+ * (front, back, neck), merged into a single label by the API.
+ *
+ * @param panels - The label's images with their panel roles
+ * @param labelName - Name of the label, used for the mock fallback
+ * @param options - Pipeline switches such as geometry correction
+ * @returns Promise<ExtractLabelResponse> - Extracted label data
+ */
+export async function extractLabelPanelData(
+  panels: LabelPanelFile[],
+  labelName: string,
+  expectedData?: ExpectedAlcoholLabel,
+  options: ExtractLabelRequestOptions = {}
+): Promise<ExtractLabelResponse> {
+  const mockResponse = () => ({
+    label: getMockLabelData(labelName),
+    evaluation: null,
+    agreement: null,
+    fieldPanels: null,
+    quality: null,
+    correctedImage: null,
+    pageImage: null,
+  });
+  if (panels.length === 0) {
+    return mockResponse();
   }
 
   try {
-    return await requestStructuredLabelData(imageFile, expectedData);
+    return await requestStructuredLabelData(panels, labelName, expectedData, options);
   } catch (error) {
-    if (error instanceof Error && /capacity|rate limit/i.test(error.message)) {
+    // Quality rejections are about the upload itself; mock data would hide them.
+    if (error instanceof Error && /capacity|rate limit|image quality/i.test(error.message)) {
       throw error;
     }
     console.error("Falling back to mock OCR data:", error);
-    return { label: getMockLabelData(imageName), evaluation: null };
+    return mockResponse();
   }
 }
 
 /**
- * Batch process multiple images
+ * Batch process multiple labels
  * 
- * @param files - Array of image files to process
- * @returns Promise<Array<{name: string, data: ExtractedAlcoholLabel}>> - Array of extracted data
+ * @param labels - Labels to process, each with one or more panel images
+ * @param options - Pipeline switches such as geometry correction
+ * @returns Promise<Array<{name: string, data: ExtractLabelResponse}>> - Array of extracted data
  */
 export async function batchExtractLabelData(
-  files: File[],
-  expectedData?: ExpectedAlcoholLabel
+  labels: Array<{ name: string; panels: LabelPanelFile[] }>,
+  expectedData?: ExpectedAlcoholLabel,
+  options: ExtractLabelRequestOptions = {}
 ): Promise<Array<{ name: string; data: ExtractLabelResponse }>> {
   const results = await Promise.all(
-    files.map(async (file) => ({
-      name: file.name,
-      data: await extractLabelData(file, file.name, expectedData),
+    labels.map(async (label) => ({
+      name: label.name,
+      data: await extractLabelPanelData(label.panels, label.name, expectedData, options),
     }))
   );
 
@@ -0,0 +1,19 @@
+// Names of PDF pages verified as panels of their own. Shared by the server,
+// which names the rasterized pages, and the upload page, which matches them
+// back to the uploaded file.
+
+/**
+ * Names a page of a multi-page PDF after the file, keeping the extension so
+ * "proof.pdf" page 2 becomes "proof (page 2).pdf".
+ */
+export function getPageName(name: string, pageIndex: number): string {
+  return name.replace(/(\.[^.]*)?$/, (ext) => ` (page ${pageIndex + 1})${ext}`);
+}
+
+/**
+ * Returns true when a panel name refers to the first image of an uploaded
+ * file: the file itself, or page 1 when it was a multi-page PDF.
+ */
+export function isFirstPageOf(panelName: string, fileName: string): boolean {
+  return panelName === fileName || panelName === getPageName(fileName, 0);
+}
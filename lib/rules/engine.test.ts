@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { loadRulePack, selectRules } from "@/lib/rules/engine";
+import { RULE_PACKS } from "@/lib/rules/packs";
+
+const core = RULE_PACKS[0];
+
+describe("selectRules", () => {
+  it("resolves each rule to the revision of the recorded pack version", () => {
+    const v1 = selectRules(core, 1, "2025-01-01");
+    const v2 = selectRules(core, 2, "2025-01-01");
+    const title = (rules: typeof v1, id: string) => rules.find((rule) => rule.id === id)?.title;
+
+    expect(title(v1, "malt.flavor-abv-statement")).toBe("Alcohol Content");
+    expect(title(v2, "malt.flavor-abv-statement")).toBe("Rule: Flavored Malt ABV Statement");
+    expect(v1.some((rule) => rule.id === "import.importer-statement-missing")).toBe(false);
+    expect(v2.some((rule) => rule.id === "import.importer-statement-missing")).toBe(true);
+  });
+
+  it("skips rules not yet in effect", () => {
+    expect(selectRules(core, 2, "2023-12-31")).toEqual([]);
+  });
+});
+
+describe("loadRulePack", () => {
+  const rule = {
+    id: "test.rule",
+    version: 1,
+    effectiveFrom: "2024-01-01",
+    title: "Rule: Test",
+    inputs: ["label.abv"],
+    assert: [{ input: "label.abv", op: "present" }],
+    severity: "fail",
+    message: "ABV missing",
+    passMessage: "ABV found",
+  };
+
+  it("accepts a valid pack", () => {
+    expect(loadRulePack({ id: "test", name: "Test", version: 1, rules: [rule] }).rules).toHaveLength(1);
+  });
+
+  it("rejects revisions newer than the pack and unknown inputs", () => {
+    expect(() =>
+      loadRulePack({ id: "test", name: "Test", version: 1, rules: [{ ...rule, version: 2 }] })
+    ).toThrow(/newer than pack version 1/);
+    expect(() =>
+      loadRulePack({
+        id: "test",
+        name: "Test",
+        version: 1,
+        rules: [
+          {
+            ...rule,
+            inputs: ["label.unknown"],
+            assert: [{ input: "label.unknown", op: "present" }],
+          },
+        ],
+      })
+    ).toThrow(/label\.unknown/);
+  });
+});
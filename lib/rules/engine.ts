@@ -0,0 +1,247 @@
+// Declarative rule engine: evaluates JSON rule packs against an extracted label
+// and its expected data. Each applicable rule produces one result row.
+
+import type { RuleSet, VerificationResult } from "@/lib/schemas";
+import {
+  getRuleInputSource,
+  isKnownRuleInput,
+  readRuleInput,
+} from "@/lib/rules/inputs";
+import type { RuleContext } from "@/lib/rules/inputs";
+import { rulePackSchema } from "@/lib/rules/types";
+import type {
+  RuleCondition,
+  RuleDefinition,
+  RulePack,
+  RuleValue,
+} from "@/lib/rules/types";
+
+const TEMPLATE_PATTERN = /\{([\w.]+)\}/g;
+
+// Operators that compare against a `value` or `valueFrom`.
+const BINARY_OPERATORS = new Set<RuleCondition["op"]>([
+  "equals",
+  "notEquals",
+  "in",
+  "matches",
+  "notMatches",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+]);
+
+/**
+ * Lists the problems with a rule: unknown or undeclared inputs, operators
+ * missing their operand and invalid patterns.
+ */
+function validateRule(rule: RuleDefinition): string[] {
+  const problems: string[] = [];
+  const declared = new Set(rule.inputs);
+  const checkInput = (name: string, where: string) => {
+    if (!isKnownRuleInput(name)) {
+      problems.push(`${rule.id}: unknown input "${name}" in ${where}`);
+    } else if (!declared.has(name)) {
+      problems.push(`${rule.id}: input "${name}" used in ${where} is not listed in inputs`);
+    }
+  };
+
+  rule.inputs.forEach((name) => {
+    if (!isKnownRuleInput(name)) problems.push(`${rule.id}: unknown input "${name}"`);
+  });
+  if (rule.subject) checkInput(rule.subject, "subject");
+  [...rule.when, ...rule.assert].forEach((condition) => {
+    checkInput(condition.input, "a condition");
+    if (condition.valueFrom) checkInput(condition.valueFrom, "a condition");
+    const hasOperand = condition.value !== undefined || condition.valueFrom !== undefined;
+    if (BINARY_OPERATORS.has(condition.op) && !hasOperand) {
+      problems.push(`${rule.id}: "${condition.op}" on "${condition.input}" needs a value`);
+    }
+    if (condition.op === "in" && !Array.isArray(condition.value)) {
+      problems.push(`${rule.id}: "in" on "${condition.input}" needs a list of values`);
+    }
+    if (condition.op === "matches" || condition.op === "notMatches") {
+      try {
+        new RegExp(String(condition.value), "i");
+      } catch {
+        problems.push(`${rule.id}: invalid pattern for "${condition.input}"`);
+      }
+    }
+  });
+  [rule.message, rule.passMessage].forEach((template) => {
+    Array.from(template.matchAll(TEMPLATE_PATTERN)).forEach(([, name]) => {
+      checkInput(name, "a message");
+    });
+  });
+  return problems;
+}
+
+/**
+ * Parses and validates a rule pack loaded from JSON. Throws with every
+ * problem found so a broken pack fails loudly instead of skipping checks.
+ */
+export function loadRulePack(json: unknown): RulePack {
+  const parsed = rulePackSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("\n- ");
+    throw new Error(`Invalid rule pack:\n- ${issues}`);
+  }
+
+  const pack = parsed.data;
+  const problems: string[] = [];
+  const revisions = new Set<string>();
+  pack.rules.forEach((rule) => {
+    const revision = `${rule.id} v${rule.version}`;
+    if (revisions.has(revision)) problems.push(`${revision}: duplicate rule revision`);
+    revisions.add(revision);
+    if (rule.version > pack.version) {
+      problems.push(`${revision}: newer than pack version ${pack.version}`);
+    }
+    if (rule.effectiveTo && rule.effectiveTo <= rule.effectiveFrom) {
+      problems.push(`${revision}: effectiveTo must be after effectiveFrom`);
+    }
+    problems.push(...validateRule(rule));
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid rule pack "${pack.id}":\n- ${problems.join("\n- ")}`);
+  }
+  return pack;
+}
+
+function compareNumbers(left: RuleValue, right: RuleValue, test: (a: number, b: number) => boolean) {
+  return typeof left === "number" && typeof right === "number" && test(left, right);
+}
+
+/**
+ * Tests one condition. Comparisons with a missing input are false, so a rule
+ * asserting "gte" on an absent value fails rather than passing silently.
+ */
+function testCondition(condition: RuleCondition, context: RuleContext): boolean {
+  const value = readRuleInput(condition.input, context);
+  const operand = condition.valueFrom
+    ? readRuleInput(condition.valueFrom, context)
+    : condition.value;
+  const single = Array.isArray(operand) ? null : operand ?? null;
+
+  switch (condition.op) {
+    case "present":
+      return value !== null;
+    case "absent":
+      return value === null;
+    case "equals":
+      return value !== null && value === single;
+    case "notEquals":
+      return value !== single;
+    case "in":
+      return Array.isArray(operand) && value !== null && operand.includes(value);
+    case "matches":
+      return value !== null && new RegExp(String(single), "i").test(String(value));
+    case "notMatches":
+      return value === null || !new RegExp(String(single), "i").test(String(value));
+    case "gt":
+      return compareNumbers(value, single, (a, b) => a > b);
+    case "gte":
+      return compareNumbers(value, single, (a, b) => a >= b);
+    case "lt":
+      return compareNumbers(value, single, (a, b) => a < b);
+    case "lte":
+      return compareNumbers(value, single, (a, b) => a <= b);
+  }
+}
+
+/**
+ * Fills {input.name} placeholders; missing values read as "none".
+ */
+function renderTemplate(template: string, context: RuleContext): string {
+  return template.replace(TEMPLATE_PATTERN, (_, name: string) => {
+    const value = readRuleInput(name, context);
+    return value === null ? "none" : String(value);
+  });
+}
+
+/**
+ * Returns true when the rule is enabled, covers the product type and its
+ * `when` conditions hold.
+ */
+function isApplicable(rule: RuleDefinition, context: RuleContext): boolean {
+  if (!rule.enabled) return false;
+  if (rule.productTypes.length > 0) {
+    const productType = readRuleInput("productType", context);
+    if (!rule.productTypes.some((type) => type === productType)) return false;
+  }
+  return rule.when.every((condition) => testCondition(condition, context));
+}
+
+/**
+ * Evaluates one rule; null when it does not apply.
+ */
+export function evaluateRule(
+  rule: RuleDefinition,
+  context: RuleContext
+): VerificationResult | null {
+  if (!isApplicable(rule, context)) return null;
+
+  const passed = rule.assert.every((condition) => testCondition(condition, context));
+  const subject = rule.subject ?? null;
+  const subjectValue = subject ? readRuleInput(subject, context) : null;
+  const source = subject ? getRuleInputSource(subject, context) : null;
+  return {
+    field: rule.title,
+    extracted: subjectValue === null ? "" : String(subjectValue),
+    expected: rule.expected,
+    status: passed ? "✅" : rule.severity === "fail" ? "❌" : "⚠️",
+    message: renderTemplate(passed ? rule.passMessage : rule.message, context),
+    confidence: source?.confidence ?? null,
+    boundingBox: source?.boundingBox ?? null,
+  };
+}
+
+/**
+ * Picks the revision of each rule a pack version used on a date: the highest
+ * revision published in that pack version and in effect on the date. Rules
+ * keep the order of their first revision in the pack.
+ */
+export function selectRules(
+  pack: RulePack,
+  packVersion: number,
+  asOf: string
+): RuleDefinition[] {
+  const selected = new Map<string, RuleDefinition | null>();
+  pack.rules.forEach((rule) => {
+    if (!selected.has(rule.id)) selected.set(rule.id, null);
+    const inEffect =
+      rule.version <= packVersion &&
+      rule.effectiveFrom <= asOf &&
+      (!rule.effectiveTo || asOf < rule.effectiveTo);
+    const current = selected.get(rule.id);
+    if (inEffect && (!current || rule.version > current.version)) {
+      selected.set(rule.id, rule);
+    }
+  });
+  return Array.from(selected.values()).filter(
+    (rule): rule is RuleDefinition => rule !== null
+  );
+}
+
+/**
+ * Evaluates the rules of a rule set, in pack order. Packs the rule set does
+ * not list (added after it was recorded) are skipped.
+ */
+export function evaluateRulePacks(
+  packs: RulePack[],
+  context: RuleContext,
+  ruleSet: RuleSet
+): VerificationResult[] {
+  const results: VerificationResult[] = [];
+  packs.forEach((pack) => {
+    const packVersion = ruleSet.packs[pack.id];
+    if (packVersion === undefined) return;
+    selectRules(pack, packVersion, ruleSet.asOf).forEach((rule) => {
+      const result = evaluateRule(rule, context);
+      if (result) results.push(result);
+    });
+  });
+  return results;
+}
@@ -0,0 +1,60 @@
+import type {
+  ExpectedAlcoholLabel,
+  ExtractedAlcoholLabel,
+  RuleSet,
+  VerificationResult,
+} from "@/lib/schemas";
+import { evaluateRulePacks } from "@/lib/rules/engine";
+import { BUILT_IN_RULES_VERSION, RULE_PACKS } from "@/lib/rules/packs";
+import type { RulePack } from "@/lib/rules/types";
+
+/**
+ * Returns the rule set in force today: the latest version of every bundled
+ * pack and the current built-in checks.
+ */
+export function getCurrentRuleSet(
+  packs: RulePack[] = RULE_PACKS,
+  today: Date = new Date()
+): RuleSet {
+  return {
+    packs: Object.fromEntries(packs.map((pack) => [pack.id, pack.version])),
+    builtIn: BUILT_IN_RULES_VERSION,
+    asOf: today.toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Describes a rule set for display, e.g. "core v2, built-in v1, as of 2026-10-19".
+ */
+export function formatRuleSet(ruleSet: RuleSet): string {
+  const packs = Object.entries(ruleSet.packs).map(([id, version]) => `${id} v${version}`);
+  return [...packs, `built-in v${ruleSet.builtIn}`].join(", ") + `, as of ${ruleSet.asOf}`;
+}
+
+/**
+ * Runs the bundled rule packs (or the given ones) against a label under a
+ * rule set, the current one by default.
+ */
+export function evaluateLabelRules(
+  extracted: ExtractedAlcoholLabel,
+  expected: ExpectedAlcoholLabel,
+  ruleSet: RuleSet = getCurrentRuleSet(),
+  packs: RulePack[] = RULE_PACKS
+): VerificationResult[] {
+  return evaluateRulePacks(packs, { extracted, expected }, ruleSet);
+}
+
+export {
+  evaluateRule,
+  evaluateRulePacks,
+  loadRulePack,
+  selectRules,
+} from "@/lib/rules/engine";
+export { BUILT_IN_RULES_VERSION, RULE_PACKS } from "@/lib/rules/packs";
+export type {
+  RuleCondition,
+  RuleDefinition,
+  RuleOperator,
+  RulePack,
+  RuleValue,
+} from "@/lib/rules/types";
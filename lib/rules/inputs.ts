@@ -0,0 +1,141 @@
+// Named inputs rule packs can read. Each input reads one value from the
+// extracted label or the expected data; `source` names the extracted field it
+// comes from so result rows can carry that field's confidence and location.
+
+import type {
+  ExpectedAlcoholLabel,
+  ExtractedAlcoholLabel,
+  ExtractedSimpleField,
+} from "@/lib/schemas";
+import { parseAbv, resolveProductType } from "@/lib/extraction/heuristics";
+import { parseAgeYears } from "@/lib/ageStatement";
+import { isUnitedStates, parseBottlerStatement } from "@/lib/bottlerStatement";
+import { normalizeCountry } from "@/lib/countries";
+import { parseNetContents } from "@/lib/netContents";
+import { parseVintage } from "@/lib/wineRules";
+import type { RuleValue } from "@/lib/rules/types";
+
+export type RuleContext = {
+  extracted: ExtractedAlcoholLabel;
+  expected: ExpectedAlcoholLabel;
+};
+
+type SimpleFieldKey = {
+  [K in keyof ExtractedAlcoholLabel]-?: NonNullable<ExtractedAlcoholLabel[K]> extends ExtractedSimpleField
+    ? K
+    : never;
+}[keyof ExtractedAlcoholLabel];
+
+type RuleInputDefinition = {
+  source?: SimpleFieldKey;
+  read: (context: RuleContext) => RuleValue;
+};
+
+const labelText =
+  (key: SimpleFieldKey): RuleInputDefinition => ({
+    source: key,
+    read: ({ extracted }) => extracted[key]?.text ?? null,
+  });
+
+const bottlerPart = (
+  read: (statement: ReturnType<typeof parseBottlerStatement>) => RuleValue
+): RuleInputDefinition => ({
+  source: "bottlerProducer",
+  read: ({ extracted }) =>
+    extracted.bottlerProducer?.text ? read(parseBottlerStatement(extracted.bottlerProducer.text)) : null,
+});
+
+export const RULE_INPUTS: Record<string, RuleInputDefinition> = {
+  productType: { read: ({ expected }) => resolveProductType(expected) },
+
+  "label.brandName": labelText("brandName"),
+  "label.classType": labelText("classType"),
+  "label.alcoholContent": labelText("alcoholContent"),
+  "label.abv": {
+    source: "alcoholContent",
+    read: ({ extracted }) => parseAbv(extracted.alcoholContent?.text),
+  },
+  "label.proofStatement": labelText("proofStatement"),
+  "label.ageStatement": labelText("ageStatement"),
+  "label.ageYears": {
+    source: "ageStatement",
+    read: ({ extracted }) => parseAgeYears(extracted.ageStatement?.text),
+  },
+  "label.netContents": labelText("netContents"),
+  "label.netContentsMl": {
+    source: "netContents",
+    read: ({ extracted }) => parseNetContents(extracted.netContents?.text),
+  },
+  "label.bottlerProducer": labelText("bottlerProducer"),
+  "label.bottlerRole": bottlerPart((statement) => statement.role),
+  "label.bottlerCompany": bottlerPart((statement) => statement.company),
+  "label.bottlerAddress": bottlerPart(
+    (statement) =>
+      [statement.city, statement.state, statement.country].filter(Boolean).join(", ") || null
+  ),
+  "label.bottlerInUs": bottlerPart(
+    (statement) => Boolean(statement.state) || isUnitedStates(statement.country)
+  ),
+  "label.countryOfOrigin": {
+    source: "countryOfOrigin",
+    read: ({ extracted }) => {
+      const text = extracted.countryOfOrigin?.text;
+      return text ? normalizeCountry(text) ?? text : null;
+    },
+  },
+  "label.governmentWarning": {
+    read: ({ extracted }) => extracted.governmentWarning?.text ?? null,
+  },
+  "label.appellation": labelText("appellation"),
+  "label.vintage": labelText("vintage"),
+  "label.vintageYear": {
+    source: "vintage",
+    read: ({ extracted }) => parseVintage(extracted.vintage?.text),
+  },
+  "label.varietal": labelText("varietal"),
+
+  "expected.brandName": { read: ({ expected }) => expected.brandName?.text || null },
+  "expected.classType": { read: ({ expected }) => expected.classType?.text || null },
+  "expected.alcoholContent": { read: ({ expected }) => expected.alcoholContent?.text || null },
+  "expected.abv": { read: ({ expected }) => parseAbv(expected.alcoholContent?.text) },
+  "expected.netContentsMl": {
+    read: ({ expected }) => parseNetContents(expected.netContents?.text),
+  },
+  "expected.countryOfOrigin": {
+    read: ({ expected }) => normalizeCountry(expected.countryOfOrigin?.text) ?? expected.countryOfOrigin?.text ?? null,
+  },
+  "expected.ageYears": { read: ({ expected }) => expected.ageYears },
+  "expected.isImported": { read: ({ expected }) => expected.isImported },
+  "expected.beerHasAddedFlavorsWithAlcohol": {
+    read: ({ expected }) => expected.beerHasAddedFlavorsWithAlcohol,
+  },
+  "expected.appellation": { read: ({ expected }) => expected.appellation?.text || null },
+  "expected.vintage": { read: ({ expected }) => expected.vintage?.text || null },
+  "expected.varietal": { read: ({ expected }) => expected.varietal?.text || null },
+};
+
+/**
+ * Returns true when a rule pack may reference the input.
+ */
+export function isKnownRuleInput(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(RULE_INPUTS, name);
+}
+
+/**
+ * Reads a named input; empty strings count as missing.
+ */
+export function readRuleInput(name: string, context: RuleContext): RuleValue {
+  const value = RULE_INPUTS[name]?.read(context) ?? null;
+  return value === "" ? null : value;
+}
+
+/**
+ * Returns the extracted field an input reads from, if any.
+ */
+export function getRuleInputSource(
+  name: string,
+  context: RuleContext
+): ExtractedSimpleField | null {
+  const source = RULE_INPUTS[name]?.source;
+  return source ? context.extracted[source] ?? null : null;
+}
@@ -0,0 +1,23 @@
+// Rule packs bundled with the app. Each pack is a JSON file in rule-packs/;
+// checks are added, changed or disabled ("enabled": false) in the JSON by
+// adding a rule revision and bumping the pack version. A new pack file must be
+// imported here: labels are also verified in the browser, where the directory
+// cannot be listed, so packs are bundled statically.
+
+import corePack from "@/rule-packs/core.json";
+import { loadRulePack } from "@/lib/rules/engine";
+import type { RulePack } from "@/lib/rules/types";
+
+export const RULE_PACKS: RulePack[] = [loadRulePack(corePack)];
+
+// Version of the checks coded in lib/compare.ts and the parsers they use. Bump
+// it with every change to their results; verifications recorded under an
+// older version cannot be recomputed with the old checks.
+//   2: result severities and the decision policy
+//   3: ABV tolerance decides the Alcohol Content row and respects the wine 14%
+//      line; grouped volumes and corrected wine sizes; flavored spirits class;
+//      spelled-out ages; image quality row; decision policy loaded from JSON
+//   4: decimal-comma ABV statements ("12,5%")
+//   5: bottler statement checked only part by part; "Canned by" and
+//      "Bottled for" role phrases
+export const BUILT_IN_RULES_VERSION = 5;
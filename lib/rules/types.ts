@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { productTypeSchema } from "@/lib/schemas";
+
+// Calendar date, compared as a string.
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+// Literal a condition compares an input with.
+const ruleValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const ruleOperatorSchema = z.enum([
+  "present",
+  "absent",
+  "equals",
+  "notEquals",
+  "in",
+  "matches",
+  "notMatches",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+]);
+
+// One test on a named input. The right-hand side is either a literal `value`
+// or another input named by `valueFrom`; `present`/`absent` take neither.
+export const ruleConditionSchema = z.object({
+  input: z.string(),
+  op: ruleOperatorSchema,
+  value: z.union([ruleValueSchema, z.array(ruleValueSchema)]).optional(),
+  valueFrom: z.string().optional(),
+});
+
+export const ruleDefinitionSchema = z.object({
+  id: z.string().min(1),
+  // Pack version that introduced this revision of the rule. Published
+  // revisions are never edited: a change adds a revision with a higher
+  // version, so older pack versions keep resolving to the old one.
+  version: z.number().int().min(1),
+  // Dates the revision applies to; effectiveTo is exclusive.
+  effectiveFrom: isoDateSchema,
+  effectiveTo: isoDateSchema.optional(),
+  // Result row name, e.g. "Rule: Importer Statement".
+  title: z.string().min(1),
+  description: z.string().optional(),
+  enabled: z.boolean().default(true),
+  // Product types the rule applies to; empty means every product.
+  productTypes: z.array(productTypeSchema).default([]),
+  // Every input the rule reads, in its conditions or message templates.
+  inputs: z.array(z.string()).min(1),
+  // Input shown as the row's label value; its confidence and location are attached.
+  subject: z.string().optional(),
+  // The rule runs only when all of these hold.
+  when: z.array(ruleConditionSchema).default([]),
+  // The rule passes when all of these hold.
+  assert: z.array(ruleConditionSchema).min(1),
+  severity: z.enum(["fail", "warn"]),
+  // Row "expected" column.
+  expected: z.string().default(""),
+  // Templates; {input.name} is replaced with the input's value.
+  message: z.string().min(1),
+  passMessage: z.string().min(1),
+});
+
+export const rulePackSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  version: z.number().int().min(1),
+  rules: z.array(ruleDefinitionSchema),
+});
+
+export type RuleOperator = z.infer<typeof ruleOperatorSchema>;
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type RuleDefinition = z.infer<typeof ruleDefinitionSchema>;
+export type RulePack = z.infer<typeof rulePackSchema>;
+
+// Value of a rule input; null when the label or expected data lacks it.
+export type RuleValue = string | number | boolean | null;
@@ -12,7 +12,44 @@ const governmentWarningSchema = z.object({
   isAllCaps: z.boolean(),
 });
 
-const nullableGovernmentWarningSchema = governmentWarningSchema.nullable();
+// 0..1 certainty for an extracted field: the model's self-report on a single
+// pass, blended with cross-pass agreement once candidates are merged.
+const fieldConfidenceSchema = z
+  .number()
+  .nullable()
+  .optional()
+  .describe("How certain you are that the text was read correctly, from 0 to 1.");
+
+// Approximate field location as fractions (0..1) of the image width/height,
+// measured from the top-left corner.
+export const boundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+const fieldBoundingBoxSchema = boundingBoxSchema
+  .nullable()
+  .optional()
+  .describe(
+    "Approximate region of the image containing this text, as fractions of image width/height from the top-left corner."
+  );
+
+const extractedSimpleFieldSchema = simpleFieldSchema.extend({
+  confidence: fieldConfidenceSchema,
+  boundingBox: fieldBoundingBoxSchema,
+});
+
+const extractedGovernmentWarningSchema = governmentWarningSchema.extend({
+  isBodyBold: z
+    .boolean()
+    .nullable()
+    .optional()
+    .describe("Whether the warning text after the \"GOVERNMENT WARNING\" header is bold."),
+  confidence: fieldConfidenceSchema,
+  boundingBox: fieldBoundingBoxSchema,
+});
 
 export const additiveDisclosureSchema = z.object({
   fdcYellowNo5: z.boolean(),
@@ -49,14 +86,19 @@ const BEER_CLASS_KEYWORDS = [
 
 // Schema for extracted alcohol label data (nullable for missing fields)
 export const extractedAlcoholLabelSchema = z.object({
-  brandName: nullableSimpleFieldSchema,
-  classType: nullableSimpleFieldSchema,
-  alcoholContent: nullableSimpleFieldSchema,
-  netContents: nullableSimpleFieldSchema,
-  governmentWarning: nullableGovernmentWarningSchema,
-  bottlerProducer: nullableSimpleFieldSchema,
-  countryOfOrigin: nullableSimpleFieldSchema,
+  brandName: extractedSimpleFieldSchema.nullable(),
+  classType: extractedSimpleFieldSchema.nullable(),
+  alcoholContent: extractedSimpleFieldSchema.nullable(),
+  netContents: extractedSimpleFieldSchema.nullable(),
+  governmentWarning: extractedGovernmentWarningSchema.nullable(),
+  bottlerProducer: extractedSimpleFieldSchema.nullable(),
+  countryOfOrigin: extractedSimpleFieldSchema.nullable(),
   additivesDisclosed: additiveDisclosureSchema.nullable(),
+  proofStatement: extractedSimpleFieldSchema.nullable().optional(),
+  ageStatement: extractedSimpleFieldSchema.nullable().optional(),
+  appellation: extractedSimpleFieldSchema.nullable().optional(),
+  vintage: extractedSimpleFieldSchema.nullable().optional(),
+  varietal: extractedSimpleFieldSchema.nullable().optional(),
 });
 
 export const partialLabel = extractedAlcoholLabelSchema.partial();
@@ -72,6 +114,10 @@ export const expectedAlcoholLabelSchema = z.object({
   bottlerProducer: simpleFieldSchema,
   countryOfOrigin: nullableSimpleFieldSchema,
   ageYears: z.number().min(0).nullable(),
+  // Wine designations, checked only when provided.
+  appellation: nullableSimpleFieldSchema.optional(),
+  vintage: nullableSimpleFieldSchema.optional(),
+  varietal: nullableSimpleFieldSchema.optional(),
   isImported: z.boolean(),
   beerHasAddedFlavorsWithAlcohol: z.boolean(),
   additivesDetected: additiveDisclosureSchema,
@@ -79,6 +125,11 @@ export const expectedAlcoholLabelSchema = z.object({
 
 export type SimpleField = z.infer<typeof simpleFieldSchema>;
 export type GovernmentWarningField = z.infer<typeof governmentWarningSchema>;
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+export type ExtractedSimpleField = z.infer<typeof extractedSimpleFieldSchema>;
+export type ExtractedGovernmentWarningField = z.infer<
+  typeof extractedGovernmentWarningSchema
+>;
 export type AdditiveDisclosure = z.infer<typeof additiveDisclosureSchema>;
 export type ProductType = z.infer<typeof productTypeSchema>;
 export type ExtractedAlcoholLabel = z.infer<typeof extractedAlcoholLabelSchema>;
@@ -99,33 +150,183 @@ export const fieldAccuracySchema = z.object({
 
 export type FieldAccuracy = z.infer<typeof fieldAccuracySchema>;
 
+const fieldReasonSchema = z
+  .string()
+  .nullable()
+  .describe(
+    "One short sentence citing the compared values, e.g. \"ABV 40% on label vs 45% expected\"."
+  );
+
+export const fieldReasonsSchema = z.object({
+  brandName: fieldReasonSchema,
+  classType: fieldReasonSchema,
+  alcoholContent: fieldReasonSchema,
+  netContents: fieldReasonSchema,
+  governmentWarning: fieldReasonSchema,
+  bottlerProducer: fieldReasonSchema,
+  countryOfOrigin: fieldReasonSchema,
+  additivesDisclosed: fieldReasonSchema,
+});
+
+export type FieldReasons = z.infer<typeof fieldReasonsSchema>;
+
+// Scores plus a short explanation per field, as returned by an evaluator.
+export const fieldEvaluationSchema = z.object({
+  fields: fieldAccuracySchema,
+  reasons: fieldReasonsSchema,
+});
+
+export type FieldEvaluation = z.infer<typeof fieldEvaluationSchema>;
+
+// Which evaluator produced a field score: the model or local rules.
+export const fieldEvaluatorSchema = z.enum(["llm", "rules"]);
+
+export const fieldEvaluatorsSchema = z.object({
+  brandName: fieldEvaluatorSchema,
+  classType: fieldEvaluatorSchema,
+  alcoholContent: fieldEvaluatorSchema,
+  netContents: fieldEvaluatorSchema,
+  governmentWarning: fieldEvaluatorSchema,
+  bottlerProducer: fieldEvaluatorSchema,
+  countryOfOrigin: fieldEvaluatorSchema,
+  additivesDisclosed: fieldEvaluatorSchema,
+});
+
+export type FieldEvaluator = z.infer<typeof fieldEvaluatorSchema>;
+export type FieldEvaluators = z.infer<typeof fieldEvaluatorsSchema>;
+
 export const accuracyDecisionSchema = z.object({
   fields: fieldAccuracySchema,
   passed: z.boolean(),
+  decidedBy: fieldEvaluatorsSchema.optional(),
+  reasons: fieldReasonsSchema.optional(),
 });
 
 export type AccuracyDecision = z.infer<typeof accuracyDecisionSchema>;
 
 // Schema for verification result
+// One word of a government warning diff. "text" is the word as read from the
+// label; "expected" is the standard word for deletions and substitutions.
+export const warningDiffSegmentSchema = z.object({
+  type: z.enum(["equal", "inserted", "deleted", "substituted"]),
+  text: z.string(),
+  expected: z.string().nullable(),
+});
+
+export type WarningDiffSegment = z.infer<typeof warningDiffSegmentSchema>;
+
+// How much a result matters to the overall decision, from critical (any
+// failure fails the label) to info (never affects it).
+export const resultSeveritySchema = z.enum(["critical", "major", "minor", "info"]);
+
 export const verificationResultSchema = z.object({
   field: z.string(),
   extracted: z.string(),
   expected: z.string(),
   status: z.enum(["✅", "⚠️", "❌"]),
   message: z.string().optional(),
+  confidence: z.number().nullable().optional(),
+  boundingBox: boundingBoxSchema.nullable().optional(),
+  // Set on the government warning result when it differs from the standard text.
+  warningDiff: z.array(warningDiffSegmentSchema).nullable().optional(),
+  // Assigned by the decision policy; missing on results stored before it.
+  severity: resultSeveritySchema.optional(),
+  weight: z.number().optional(),
 });
 
+export type ResultSeverity = z.infer<typeof resultSeveritySchema>;
 export type VerificationResult = z.infer<typeof verificationResultSchema>;
 
+export const severityRuleSchema = z.object({
+  // Result field name; a trailing "*" matches any field with that prefix.
+  field: z.string().min(1),
+  severity: resultSeveritySchema,
+});
+
+// Assigns each result a severity and weight and decides the overall status.
+// Policies are JSON files in decision-policies/; a change bumps the version.
+export const decisionPolicySchema = z.object({
+  id: z.string().min(1),
+  version: z.number().int().min(1),
+  description: z.string().optional(),
+  // First matching rule wins; unmatched fields get defaultSeverity.
+  severities: z.array(severityRuleSchema),
+  defaultSeverity: resultSeveritySchema,
+  weights: z.record(resultSeveritySchema, z.number().min(0)),
+  // Failing results with these severities fail the label outright.
+  failOnSeverities: z.array(resultSeveritySchema),
+  // A warning counts this fraction of its weight toward the score.
+  warningFactor: z.number().min(0).max(1),
+  // Labels whose weighted score reaches this fail.
+  failThreshold: z.number().positive(),
+});
+
 // Schema for complete verification
+// Rules a label was checked against: the version of each rule pack, the
+// version of the checks built into compareLabels and the date rule revisions
+// were resolved for.
+export const ruleSetSchema = z.object({
+  packs: z.record(z.string(), z.number()),
+  builtIn: z.number(),
+  asOf: z.string(),
+});
+
+// Side of the container a label image shows. A label may be submitted as
+// several images, one per panel.
+export const labelPanelRoleSchema = z.enum(["front", "back", "neck", "side"]);
+
+// Most images (or PDF pages) accepted for one label.
+export const MAX_LABEL_PANELS = 6;
+
+export const labelPanelSchema = z.object({
+  name: z.string(),
+  role: labelPanelRoleSchema.nullable(),
+});
+
+// Local pre-check of an image before any model call. "reject" issues stop
+// extraction; "warn" issues are reported with the result.
+export const imageQualityIssueSchema = z.object({
+  check: z.enum(["resolution", "blur", "contrast", "glare", "blank"]),
+  level: z.enum(["warn", "reject"]),
+  message: z.string(),
+});
+
+export const imageQualityReportSchema = z.object({
+  // Image (or PDF page) the report is for.
+  name: z.string(),
+  width: z.number(),
+  height: z.number(),
+  issues: z.array(imageQualityIssueSchema),
+});
+
 export const labelVerificationSchema = z.object({
   imageId: z.string(),
   imageName: z.string(),
+  // Downscaled preview of the submitted image for the review page; the first
+  // panel when the label was submitted as several.
+  imageDataUrl: z.string().optional(),
+  // Images the label was submitted as, when there were several.
+  panels: z.array(labelPanelSchema).optional(),
+  // Name of the panel each extracted field was read from, by field key.
+  fieldPanels: z.record(z.string(), z.string()).optional(),
+  // Quality pre-check of each image; missing when it did not run.
+  imageQuality: z.array(imageQualityReportSchema).optional(),
   extractedData: extractedAlcoholLabelSchema,
   expectedData: expectedAlcoholLabelSchema,
   evaluation: accuracyDecisionSchema.nullable().optional(),
   results: z.array(verificationResultSchema),
   overallStatus: z.enum(["✅", "⚠️", "❌"]),
+  // Missing on verifications made before rule sets were recorded.
+  ruleSet: ruleSetSchema.optional(),
+  // Policy the overall status was decided under; missing on verifications
+  // made before policies were recorded.
+  decisionPolicy: decisionPolicySchema.optional(),
 });
 
+export type ImageQualityIssue = z.infer<typeof imageQualityIssueSchema>;
+export type ImageQualityReport = z.infer<typeof imageQualityReportSchema>;
+export type LabelPanelRole = z.infer<typeof labelPanelRoleSchema>;
+export type LabelPanel = z.infer<typeof labelPanelSchema>;
+export type RuleSet = z.infer<typeof ruleSetSchema>;
+export type DecisionPolicy = z.infer<typeof decisionPolicySchema>;
 export type LabelVerification = z.infer<typeof labelVerificationSchema>;
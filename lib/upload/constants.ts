@@ -20,7 +20,13 @@ export const IMAGE_EXTENSIONS = [
   ".tiff",
 ];
 
+// PDF artwork proofs; each page is verified as a panel of the label.
+export const PDF_EXTENSIONS = [".pdf"];
+
 export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
 
 export const STANDARD_GOV_WARNING_LONG =
   "GOVERNMENT WARNING: (1) According to the Surgeon General, women should not drink alcoholic beverages during pregnancy because of the risk of birth defects. (2) Consumption of alcoholic beverages impairs your ability to drive a car or operate machinery, and may cause health problems.";
+
+// Longest edge of the image preview stored with each verification.
+export const PREVIEW_MAX_DIMENSION = 1200;
@@ -104,6 +104,9 @@ function buildExpectedFromRow(
         ? buildSimpleField(row.country_of_origin)
         : null,
       ageYears: parseNumber(row.age_years),
+      appellation: row.appellation?.trim() ? buildSimpleField(row.appellation) : null,
+      vintage: row.vintage?.trim() ? buildSimpleField(row.vintage) : null,
+      varietal: row.varietal?.trim() ? buildSimpleField(row.varietal) : null,
       isImported: parseBoolean(row.is_imported),
       beerHasAddedFlavorsWithAlcohol: parseBoolean(
         row.beer_has_added_flavors_with_alcohol
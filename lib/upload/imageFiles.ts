@@ -1,9 +1,9 @@
-import { IMAGE_EXTENSIONS } from "@/lib/upload/constants";
+import { IMAGE_EXTENSIONS, PDF_EXTENSIONS } from "@/lib/upload/constants";
 
 export function filterImageFiles(fileList: FileList): File[] {
   return Array.from(fileList).filter((file) => {
-    if (file.type.startsWith("image/")) return true;
+    if (file.type.startsWith("image/") || file.type === "application/pdf") return true;
     const lowerName = file.name.toLowerCase();
-    return IMAGE_EXTENSIONS.some((ext) => lowerName.endsWith(ext));
+    return [...IMAGE_EXTENSIONS, ...PDF_EXTENSIONS].some((ext) => lowerName.endsWith(ext));
   });
 }
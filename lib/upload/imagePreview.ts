@@ -0,0 +1,29 @@
+import { PREVIEW_MAX_DIMENSION } from "@/lib/upload/constants";
+
+/**
+ * Builds a downscaled JPEG data URL of an image for the review page.
+ * Returns null when the browser cannot decode the file.
+ */
+export async function createImagePreview(
+  file: File,
+  maxDimension: number = PREVIEW_MAX_DIMENSION
+): Promise<string | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      bitmap.close();
+      return null;
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.8);
+  } catch (error) {
+    console.warn(`Could not build preview for ${file.name}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { ExtractedAlcoholLabel } from "@/lib/schemas";
+import { dropOtherPanelBoxes, groupLabelImages, inferPanelRole } from "@/lib/upload/labelGroups";
+
+const box = { x: 0.1, y: 0.1, width: 0.2, height: 0.1 };
+const label = {
+  brandName: { text: "Old Tom", boundingBox: box },
+  netContents: { text: "750 mL", boundingBox: box },
+} as unknown as ExtractedAlcoholLabel;
+
+const boxOf = (result: ExtractedAlcoholLabel, key: "brandName" | "netContents") =>
+  (result[key] as { boundingBox: unknown } | null)?.boundingBox;
+
+describe("dropOtherPanelBoxes", () => {
+  it("keeps boxes on the previewed image and clears the others", () => {
+    const result = dropOtherPanelBoxes(
+      label,
+      { brandName: "front.jpg", netContents: "back.jpg" },
+      "front.jpg"
+    );
+    expect(boxOf(result, "brandName")).toEqual(box);
+    expect(boxOf(result, "netContents")).toBeNull();
+  });
+
+  it("matches the first page of a multi-page PDF", () => {
+    const result = dropOtherPanelBoxes(
+      label,
+      { brandName: "proof (page 1).pdf", netContents: "proof (page 2).pdf" },
+      "proof.pdf"
+    );
+    expect(boxOf(result, "brandName")).toEqual(box);
+    expect(boxOf(result, "netContents")).toBeNull();
+  });
+});
+
+describe("groupLabelImages", () => {
+  it("orders each label's panels front first", () => {
+    const file = (name: string) => new File([], name);
+    const groups = groupLabelImages([
+      { file: file("merlot-back.jpg"), labelName: "merlot", role: "back" },
+      { file: file("merlot-front.jpg"), labelName: "merlot", role: "front" },
+      { file: file("ipa.jpg"), labelName: "ipa", role: null },
+    ]);
+    expect(groups.map((group) => group.name)).toEqual(["merlot", "ipa"]);
+    expect(groups[0].panels.map((panel) => panel.role)).toEqual(["front", "back"]);
+  });
+
+  it("infers the panel from the file name", () => {
+    expect(inferPanelRole("merlot-back.jpg")).toBe("back");
+    expect(inferPanelRole("merlot.jpg")).toBeNull();
+  });
+});
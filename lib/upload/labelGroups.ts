@@ -0,0 +1,98 @@
+import type {
+  ExtractedAlcoholLabel,
+  ImageQualityReport,
+  LabelPanel,
+  LabelPanelRole,
+} from "@/lib/schemas";
+import type { FieldPanels } from "@/lib/extraction/types";
+import type { LabelPanelFile } from "@/lib/ocr";
+import { isFirstPageOf } from "@/lib/pdfPages";
+
+// A selected image with the label it belongs to and the panel it shows.
+export type SelectedImage = {
+  file: File;
+  labelName: string;
+  role: LabelPanelRole | null;
+  // Quality pre-check: undefined while running, null when unavailable.
+  quality?: ImageQualityReport[] | null;
+};
+
+export type LabelImageGroup = {
+  name: string;
+  panels: LabelPanelFile[];
+};
+
+export const PANEL_ROLES: LabelPanelRole[] = ["front", "back", "neck", "side"];
+
+/**
+ * Guesses the panel from words in a file name ("merlot-back.jpg" -> back).
+ */
+export function inferPanelRole(fileName: string): LabelPanelRole | null {
+  const words = fileName.toLowerCase().split(/[^a-z]+/);
+  return PANEL_ROLES.find((role) => words.includes(role)) ?? null;
+}
+
+/**
+ * Groups selected images into labels by label name, in the order labels first
+ * appear; with singleLabel every image belongs to one label. Panels are
+ * ordered front, back, neck, side, then unassigned, so the front panel is the
+ * one previewed and wins ties when fields are merged.
+ */
+export function groupLabelImages(
+  images: SelectedImage[],
+  options: { singleLabel?: boolean } = {}
+): LabelImageGroup[] {
+  const groups = new Map<string, LabelPanelFile[]>();
+  images.forEach((image) => {
+    const name = options.singleLabel ? images[0].labelName : image.labelName;
+    const panels = groups.get(name) ?? [];
+    panels.push({ file: image.file, role: image.role });
+    groups.set(name, panels);
+  });
+
+  const rank = (role: LabelPanelRole | null) =>
+    role ? PANEL_ROLES.indexOf(role) : PANEL_ROLES.length;
+  return Array.from(groups, ([name, panels]) => ({
+    name,
+    panels: [...panels].sort((a, b) => rank(a.role) - rank(b.role)),
+  }));
+}
+
+/**
+ * Clears the locations of fields read from panels other than the previewed
+ * one; they point into an image the review page does not show. The preview is
+ * the first image of previewFile, which the server names after the file or,
+ * for a multi-page PDF, after its first page.
+ */
+export function dropOtherPanelBoxes(
+  label: ExtractedAlcoholLabel,
+  fieldPanels: FieldPanels,
+  previewFile: string
+): ExtractedAlcoholLabel {
+  const cleared = { ...label } as Record<string, unknown>;
+  Object.entries(fieldPanels).forEach(([key, panel]) => {
+    const field = cleared[key] as { boundingBox?: unknown } | null | undefined;
+    if (panel && !isFirstPageOf(panel, previewFile) && field && "boundingBox" in field) {
+      cleared[key] = { ...field, boundingBox: null };
+    }
+  });
+  return cleared as ExtractedAlcoholLabel;
+}
+
+/**
+ * Lists the selected images the quality pre-check rejected.
+ */
+export function getRejectedImages(images: SelectedImage[]): SelectedImage[] {
+  return images.filter((image) =>
+    image.quality?.some((report) => report.issues.some((issue) => issue.level === "reject"))
+  );
+}
+
+/**
+ * Describes a label's panels for display, e.g. "front (a.jpg), back (b.jpg)".
+ */
+export function formatPanels(panels: LabelPanel[]): string {
+  return panels
+    .map((panel) => (panel.role ? `${panel.role} (${panel.name})` : panel.name))
+    .join(", ");
+}
@@ -0,0 +1,20 @@
+import type { LabelVerification } from "@/lib/schemas";
+
+const STORAGE_KEY = "verifications";
+
+/**
+ * Saves verifications for the review page. Image previews can exceed the
+ * sessionStorage quota on large batches; keep the results and drop the
+ * previews rather than losing the run.
+ */
+export function storeVerifications(verifications: LabelVerification[]) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(verifications));
+  } catch (error) {
+    console.warn("Storing image previews failed, saving results only:", error);
+    const withoutImages = verifications.map(
+      ({ imageDataUrl: _imageDataUrl, ...rest }) => rest
+    );
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(withoutImages));
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  countWarningChanges,
+  diffWarningText,
+  formatWarningDiff,
+  summarizeWarningDiff,
+} from "@/lib/warningDiff";
+
+const REFERENCE = "GOVERNMENT WARNING: (1) According to the Surgeon General";
+
+describe("diffWarningText", () => {
+  it("finds no changes in matching text, ignoring case", () => {
+    const segments = diffWarningText(REFERENCE.toLowerCase(), REFERENCE);
+    expect(countWarningChanges(segments)).toBe(0);
+  });
+
+  it("pairs a changed word as a substitution", () => {
+    const segments = diffWarningText(
+      "GOVERNMENT WARNING: (1) According to the Surgeon Generals",
+      REFERENCE
+    );
+    expect(segments.filter((segment) => segment.type !== "equal")).toEqual([
+      { type: "substituted", text: "Generals", expected: "General" },
+    ]);
+  });
+
+  it("reports missing and extra words", () => {
+    const segments = diffWarningText("GOVERNMENT WARNING: (1) According the Surgeon General", REFERENCE);
+    expect(summarizeWarningDiff(segments)).toBe('"to" missing after "According"');
+
+    const extra = diffWarningText(`${REFERENCE} today`, REFERENCE);
+    expect(formatWarningDiff(extra)).toBe(`${REFERENCE} [+today]`);
+  });
+
+  it("caps the summary at three changes", () => {
+    const segments = diffWarningText("A B C D", "W X Y Z");
+    expect(countWarningChanges(segments)).toBe(4);
+    expect(summarizeWarningDiff(segments)).toMatch(/; and 1 more$/);
+  });
+});
@@ -0,0 +1,155 @@
+// Word-level diff between an extracted government warning and a reference text.
+
+import type { WarningDiffSegment } from "./schemas";
+
+type EditOp =
+  | { type: "equal"; text: string }
+  | { type: "inserted"; text: string }
+  | { type: "deleted"; text: string };
+
+// Number of changes spelled out in a summary before "and N more".
+const MAX_SUMMARY_CHANGES = 3;
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// Casing of the body text is not regulated, so words compare case-insensitively.
+const tokenKey = (token: string) => token.toUpperCase();
+
+/**
+ * Builds an edit script from the reference words to the extracted words using
+ * a longest-common-subsequence table.
+ */
+function buildEditScript(extracted: string[], reference: string[]): EditOp[] {
+  const rows = extracted.length;
+  const cols = reference.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () =>
+    new Array<number>(cols + 1).fill(0)
+  );
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        tokenKey(extracted[i]) === tokenKey(reference[j])
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: EditOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (tokenKey(extracted[i]) === tokenKey(reference[j])) {
+      ops.push({ type: "equal", text: extracted[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "inserted", text: extracted[i] });
+      i++;
+    } else {
+      ops.push({ type: "deleted", text: reference[j] });
+      j++;
+    }
+  }
+  while (i < rows) ops.push({ type: "inserted", text: extracted[i++] });
+  while (j < cols) ops.push({ type: "deleted", text: reference[j++] });
+  return ops;
+}
+
+/**
+ * Diffs extracted warning text against a reference warning word by word.
+ * Runs of missing and extra words between matches are paired up as
+ * substitutions; any leftover words stay inserted or deleted.
+ */
+export function diffWarningText(extracted: string, reference: string): WarningDiffSegment[] {
+  const ops = buildEditScript(tokenize(extracted), tokenize(reference));
+  const segments: WarningDiffSegment[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === "equal") {
+      segments.push({ type: "equal", text: op.text, expected: null });
+      index++;
+      continue;
+    }
+
+    const inserted: string[] = [];
+    const deleted: string[] = [];
+    while (index < ops.length && ops[index].type !== "equal") {
+      const change = ops[index];
+      (change.type === "inserted" ? inserted : deleted).push(change.text);
+      index++;
+    }
+
+    const paired = Math.min(inserted.length, deleted.length);
+    for (let k = 0; k < paired; k++) {
+      segments.push({ type: "substituted", text: inserted[k], expected: deleted[k] });
+    }
+    inserted.slice(paired).forEach((text) => {
+      segments.push({ type: "inserted", text, expected: null });
+    });
+    deleted.slice(paired).forEach((text) => {
+      segments.push({ type: "deleted", text: "", expected: text });
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Counts the inserted, deleted and substituted words in a diff.
+ */
+export function countWarningChanges(segments: WarningDiffSegment[]): number {
+  return segments.filter((segment) => segment.type !== "equal").length;
+}
+
+/**
+ * Describes the changes in a diff, e.g. "\"TITY\" inserted after \"ABILITY\"".
+ */
+export function summarizeWarningDiff(segments: WarningDiffSegment[]): string {
+  const changes: string[] = [];
+  let previous: string | null = null;
+  segments.forEach((segment) => {
+    const position = previous ? ` after "${previous}"` : " at the start";
+    switch (segment.type) {
+      case "inserted":
+        changes.push(`"${segment.text}" inserted${position}`);
+        break;
+      case "deleted":
+        changes.push(`"${segment.expected}" missing${position}`);
+        break;
+      case "substituted":
+        changes.push(`"${segment.text}" instead of "${segment.expected}"`);
+        break;
+    }
+    if (segment.type !== "deleted") previous = segment.text;
+  });
+
+  if (changes.length <= MAX_SUMMARY_CHANGES) return changes.join("; ");
+  return (
+    changes.slice(0, MAX_SUMMARY_CHANGES).join("; ") +
+    `; and ${changes.length - MAX_SUMMARY_CHANGES} more`
+  );
+}
+
+/**
+ * Renders a diff as plain text for exports: [+extra], [-missing], [read->expected].
+ */
+export function formatWarningDiff(segments: WarningDiffSegment[]): string {
+  return segments
+    .map((segment) => {
+      switch (segment.type) {
+        case "equal":
+          return segment.text;
+        case "inserted":
+          return `[+${segment.text}]`;
+        case "deleted":
+          return `[-${segment.expected}]`;
+        case "substituted":
+          return `[${segment.text}->${segment.expected}]`;
+      }
+    })
+    .join(" ");
+}
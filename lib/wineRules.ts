@@ -0,0 +1,266 @@
+// Wine designation rules: appellation of origin, vintage date and varietal
+// names (27 CFR 4.23, 4.25 and 4.27), checked for consistency on the label
+// and against expected values when they are provided.
+
+import { normalizeCountry } from "./countries";
+import { normalizeForSimilarity } from "./textSimilarity";
+
+export type WineField = "appellation" | "vintage" | "varietal";
+
+export type WineDesignations = {
+  appellation: string | null;
+  vintage: string | null;
+  varietal: string | null;
+  // Class/type, which may carry the varietal ("Chardonnay").
+  classType: string | null;
+};
+
+export type WineRuleFinding = {
+  field: WineField;
+  level: "pass" | "warn" | "fail";
+  message: string;
+};
+
+// Grape varieties with their approved synonyms.
+const VARIETALS: Array<[string, string[]]> = [
+  ["Albarino", ["alvarinho"]],
+  ["Barbera", []],
+  ["Cabernet Franc", []],
+  ["Cabernet Sauvignon", []],
+  ["Carmenere", []],
+  ["Catawba", []],
+  ["Chardonnay", []],
+  ["Chenin Blanc", []],
+  ["Concord", []],
+  ["Gamay", []],
+  ["Gewurztraminer", []],
+  ["Grenache", ["garnacha"]],
+  ["Gruner Veltliner", []],
+  ["Malbec", []],
+  ["Merlot", []],
+  ["Mourvedre", ["monastrell", "mataro"]],
+  ["Muscat", ["moscato", "muscat blanc"]],
+  ["Nebbiolo", []],
+  ["Niagara", []],
+  ["Norton", ["cynthiana"]],
+  ["Petit Verdot", []],
+  ["Petite Sirah", ["durif"]],
+  ["Pinot Blanc", ["pinot bianco"]],
+  ["Pinot Gris", ["pinot grigio"]],
+  ["Pinot Noir", []],
+  ["Riesling", ["white riesling"]],
+  ["Sangiovese", []],
+  ["Sauvignon Blanc", ["fume blanc"]],
+  ["Semillon", []],
+  ["Syrah", ["shiraz"]],
+  ["Tempranillo", []],
+  ["Vidal Blanc", []],
+  ["Viognier", []],
+  ["Zinfandel", ["primitivo"]],
+];
+
+/**
+ * Lowercases and strips accents and punctuation for lookup.
+ */
+function normalizeWineText(text: string): string {
+  return normalizeForSimilarity(text.normalize("NFD").replace(/[\u0300-\u036f]/g, ""));
+}
+
+// Every wording with its variety, longest first so "Pinot Noir" wins over
+// shorter names it contains.
+const VARIETAL_LOOKUP = VARIETALS.flatMap(([name, synonyms]) =>
+  [name, ...synonyms].map((wording) => ({ wording: normalizeWineText(wording), name }))
+).sort((a, b) => b.wording.length - a.wording.length);
+
+/**
+ * Parses a vintage year between 1800 and next year; null otherwise.
+ */
+export function parseVintage(text?: string | null): number | null {
+  const match = text?.match(/\b(1[89]\d{2}|2\d{3})\b/);
+  if (!match) return null;
+  const year = Number.parseInt(match[1], 10);
+  return year <= new Date().getFullYear() + 1 ? year : null;
+}
+
+/**
+ * Lists the grape varieties named in a text, e.g. "60% Shiraz, 40% Cabernet
+ * Sauvignon" -> ["Syrah", "Cabernet Sauvignon"].
+ */
+export function findVarietals(text?: string | null): string[] {
+  if (!text) return [];
+  let padded = ` ${normalizeWineText(text)} `;
+  const found: Array<{ name: string; index: number }> = [];
+  VARIETAL_LOOKUP.forEach(({ wording, name }) => {
+    const index = padded.indexOf(` ${wording} `);
+    if (index === -1) return;
+    if (!found.some((item) => item.name === name)) found.push({ name, index });
+    // Blank the match so shorter names inside it are not found again.
+    padded =
+      padded.slice(0, index + 1) +
+      " ".repeat(wording.length) +
+      padded.slice(index + 1 + wording.length);
+  });
+  return found.sort((a, b) => a.index - b.index).map((item) => item.name);
+}
+
+/**
+ * Returns the varietal designation on the label: the varietal field, or the
+ * class/type when it names a grape.
+ */
+function getLabelVarietal(label: WineDesignations): string | null {
+  if (label.varietal) return label.varietal;
+  return findVarietals(label.classType).length > 0 ? label.classType : null;
+}
+
+/**
+ * Checks that the wine designations on a label are consistent: a vintage
+ * date needs an appellation other than a country, and a varietal designation
+ * needs an appellation, a recognized variety and percentages when it names
+ * more than one.
+ */
+export function checkWineDesignations(label: WineDesignations): WineRuleFinding[] {
+  const findings: WineRuleFinding[] = [];
+  const appellationCountry = normalizeCountry(label.appellation);
+
+  if (label.vintage) {
+    const year = parseVintage(label.vintage);
+    if (year === null) {
+      findings.push({
+        field: "vintage",
+        level: "fail",
+        message: `Vintage "${label.vintage}" is not a valid year`,
+      });
+    } else if (!label.appellation) {
+      findings.push({
+        field: "vintage",
+        level: "fail",
+        message: `Vintage ${year} requires an appellation of origin`,
+      });
+    } else if (appellationCountry) {
+      findings.push({
+        field: "vintage",
+        level: "fail",
+        message: `Vintage ${year} requires an appellation other than a country (${appellationCountry})`,
+      });
+    } else {
+      findings.push({
+        field: "vintage",
+        level: "pass",
+        message: `Vintage ${year} with appellation ${label.appellation}`,
+      });
+    }
+  }
+
+  const varietalText = getLabelVarietal(label);
+  if (varietalText) {
+    const varietals = findVarietals(varietalText);
+    if (varietals.length === 0) {
+      findings.push({
+        field: "varietal",
+        level: "warn",
+        message: `"${varietalText}" does not name a recognized grape variety`,
+      });
+    } else if (varietals.length > 1 && !varietalText.includes("%")) {
+      findings.push({
+        field: "varietal",
+        level: "fail",
+        message: `Varietals ${varietals.join(", ")} must each show a percentage`,
+      });
+    } else if (!label.appellation) {
+      findings.push({
+        field: "varietal",
+        level: "fail",
+        message: `Varietal designation ${varietals.join(", ")} requires an appellation of origin`,
+      });
+    } else {
+      findings.push({
+        field: "varietal",
+        level: "pass",
+        message: `Varietal ${varietals.join(", ")} with appellation ${label.appellation}`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Compares the label's appellation, vintage and varietal with the expected
+ * values. Fields without an expected value are not compared.
+ */
+export function compareWineDesignations(
+  expected: Omit<WineDesignations, "classType">,
+  label: WineDesignations
+): WineRuleFinding[] {
+  const findings: WineRuleFinding[] = [];
+
+  if (expected.appellation) {
+    const expectedText = normalizeWineText(expected.appellation);
+    const labelText = label.appellation ? normalizeWineText(label.appellation) : "";
+    findings.push(
+      !labelText
+        ? {
+            field: "appellation",
+            level: "fail",
+            message: `Appellation not found on label; expected ${expected.appellation}`,
+          }
+        : labelText.includes(expectedText)
+          ? { field: "appellation", level: "pass", message: `Appellation matches (${label.appellation})` }
+          : {
+              field: "appellation",
+              level: "fail",
+              message: `Appellation "${label.appellation}" on label vs "${expected.appellation}" expected`,
+            }
+    );
+  }
+
+  if (expected.vintage) {
+    const expectedYear = parseVintage(expected.vintage);
+    const labelYear = parseVintage(label.vintage);
+    findings.push(
+      labelYear === null
+        ? {
+            field: "vintage",
+            level: "fail",
+            message: `Vintage not found on label; expected ${expected.vintage}`,
+          }
+        : labelYear === expectedYear
+          ? { field: "vintage", level: "pass", message: `Vintage matches (${labelYear})` }
+          : {
+              field: "vintage",
+              level: "fail",
+              message: `Vintage ${labelYear} on label vs ${expected.vintage} expected`,
+            }
+    );
+  }
+
+  if (expected.varietal) {
+    const labelVarietal = getLabelVarietal(label);
+    const expectedNames = findVarietals(expected.varietal);
+    const labelNames = findVarietals(labelVarietal);
+    // Unrecognized varieties fall back to comparing the text.
+    const matched =
+      expectedNames.length > 0
+        ? expectedNames.length === labelNames.length &&
+          expectedNames.every((name) => labelNames.includes(name))
+        : Boolean(labelVarietal) &&
+          normalizeWineText(labelVarietal ?? "") === normalizeWineText(expected.varietal);
+    findings.push(
+      !labelVarietal
+        ? {
+            field: "varietal",
+            level: "fail",
+            message: `Varietal not found on label; expected ${expected.varietal}`,
+          }
+        : matched
+          ? { field: "varietal", level: "pass", message: `Varietal matches (${labelVarietal})` }
+          : {
+              field: "varietal",
+              level: "fail",
+              message: `Varietal "${labelVarietal}" on label vs "${expected.varietal}" expected`,
+            }
+    );
+  }
+
+  return findings;
+}
@@ -1,4 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Loaded from node_modules at runtime: pdf.js ships ESM with a worker and
+    // the canvas package is a native addon, neither of which bundles cleanly.
+    serverComponentsExternalPackages: ["pdfjs-dist", "@napi-rs/canvas"],
+  },
+}
 
 module.exports = nextConfig